@@ -0,0 +1,57 @@
+import { Wallet } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { AnalysisResult } from "@/lib/gas-analysis";
+
+interface AddressBreakdownTableProps {
+  result: AnalysisResult;
+}
+
+const AddressBreakdownTable = ({ result }: AddressBreakdownTableProps) => {
+  const totalUSD = parseFloat(result.totalGasCostUSD);
+
+  return (
+    <div className="bg-white/5 rounded-lg p-6 border border-white/10 mb-8">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+        <Wallet className="w-5 h-5 text-green-400 mr-2" />
+        Per-Address Breakdown
+      </h3>
+      <Table>
+        <TableHeader>
+          <TableRow className="border-white/10 hover:bg-transparent">
+            <TableHead className="text-gray-400">Address</TableHead>
+            <TableHead className="text-gray-400 text-right">Transactions</TableHead>
+            <TableHead className="text-gray-400 text-right">{result.nativeSymbol}</TableHead>
+            <TableHead className="text-gray-400 text-right">USD</TableHead>
+            <TableHead className="text-gray-400 text-right">Share</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {result.breakdown.map((entry) => (
+            <TableRow key={entry.address} className="border-white/10 hover:bg-white/5">
+              <TableCell className="font-mono text-sm text-gray-300">
+                {entry.address.substring(0, 8)}...{entry.address.substring(entry.address.length - 6)}
+              </TableCell>
+              <TableCell className="text-right text-white">{entry.transactions.toLocaleString()}</TableCell>
+              <TableCell className="text-right text-white">{parseFloat(entry.totalGasCostETH).toFixed(6)}</TableCell>
+              <TableCell className="text-right text-green-400">
+                ${parseFloat(entry.totalGasCostUSD).toLocaleString()}
+              </TableCell>
+              <TableCell className="text-right text-gray-300">
+                {totalUSD > 0 ? `${((parseFloat(entry.totalGasCostUSD) / totalUSD) * 100).toFixed(1)}%` : "–"}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {result.internalTransactions > 0 && (
+        <p className="text-xs text-gray-400 mt-3">
+          {result.internalTransactions.toLocaleString()}{" "}
+          {result.internalTransactions === 1 ? "transaction" : "transactions"} between these addresses counted once,
+          under the sending address.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AddressBreakdownTable;
@@ -0,0 +1,63 @@
+import { AlertTriangle, ChevronDown } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { Diagnostic, DiagnosticKind } from "@/lib/gas-analysis";
+
+const KIND_LABELS: Record<DiagnosticKind, string> = {
+  "invalid-response": "Rejected responses",
+  "invalid-row": "Malformed rows dropped",
+  "skipped-transaction": "Transactions skipped",
+  "price-fallback": "Priced with fallback",
+  "missing-receipt": "Missing receipts",
+  "failed-request": "Failed requests",
+};
+
+interface DiagnosticsPanelProps {
+  diagnostics: Diagnostic[];
+  /** Total count, which may exceed the listed diagnostics */
+  count: number;
+}
+
+const DiagnosticsPanel = ({ diagnostics, count }: DiagnosticsPanelProps) => {
+  if (count === 0) {
+    return null;
+  }
+
+  const byKind = new Map<DiagnosticKind, number>();
+  for (const diagnostic of diagnostics) {
+    byKind.set(diagnostic.kind, (byKind.get(diagnostic.kind) ?? 0) + 1);
+  }
+
+  return (
+    <Collapsible className="bg-yellow-500/5 rounded-lg border border-yellow-500/20 mt-6">
+      <CollapsibleTrigger className="group w-full flex items-center justify-between p-4 text-left">
+        <span className="flex items-center text-sm font-medium text-yellow-300">
+          <AlertTriangle className="w-4 h-4 mr-2" />
+          {count.toLocaleString()} data {count === 1 ? "issue" : "issues"} found
+        </span>
+        <ChevronDown className="w-4 h-4 text-yellow-300 transition-transform group-data-[state=open]:rotate-180" />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-4 pb-4 space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {[...byKind].map(([kind, kindCount]) => (
+            <span key={kind} className="text-xs rounded-full bg-white/5 border border-white/10 px-2 py-1 text-gray-300">
+              {KIND_LABELS[kind]}: {kindCount.toLocaleString()}
+            </span>
+          ))}
+        </div>
+        <div className="max-h-64 overflow-y-auto space-y-1 font-mono text-xs">
+          {diagnostics.map((diagnostic, index) => (
+            <p key={index} className="text-gray-300">
+              <span className="text-yellow-400">{diagnostic.source}</span>
+              {diagnostic.subject && <span className="text-gray-500"> {diagnostic.subject}</span>}: {diagnostic.message}
+            </p>
+          ))}
+          {count > diagnostics.length && (
+            <p className="text-gray-500">…and {(count - diagnostics.length).toLocaleString()} more</p>
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default DiagnosticsPanel;
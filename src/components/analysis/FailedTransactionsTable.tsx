@@ -0,0 +1,47 @@
+import { AlertOctagon } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { AnalysisResult } from "@/lib/gas-analysis";
+
+interface FailedTransactionsTableProps {
+  result: AnalysisResult;
+}
+
+const FailedTransactionsTable = ({ result }: FailedTransactionsTableProps) => {
+  const failures = result.statistics.failures;
+  if (!failures || failures.costliest.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white/5 rounded-lg p-6 border border-white/10 mb-8">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+        <AlertOctagon className="w-5 h-5 text-red-400 mr-2" />
+        Costliest Failed Transactions
+      </h3>
+      <Table>
+        <TableHeader>
+          <TableRow className="border-white/10 hover:bg-transparent">
+            <TableHead className="text-gray-400">Transaction</TableHead>
+            <TableHead className="text-gray-400">Date</TableHead>
+            <TableHead className="text-gray-400 text-right">{result.nativeSymbol}</TableHead>
+            <TableHead className="text-gray-400 text-right">USD</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {failures.costliest.map((tx) => (
+            <TableRow key={tx.userOperation?.hash ?? tx.hash} className="border-white/10 hover:bg-white/5">
+              <TableCell className="font-mono text-sm text-gray-300">
+                {tx.hash.substring(0, 10)}...{tx.hash.substring(tx.hash.length - 8)}
+              </TableCell>
+              <TableCell className="text-gray-300">{new Date(tx.timestamp).toLocaleDateString()}</TableCell>
+              <TableCell className="text-right text-white">{tx.costETH.toFixed(6)}</TableCell>
+              <TableCell className="text-right text-red-400">${tx.costUSD.toFixed(2)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default FailedTransactionsTable;
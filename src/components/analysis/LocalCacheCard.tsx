@@ -0,0 +1,104 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Database, History, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  HISTORY_CACHE_STATS_QUERY_KEY,
+  PRICE_CACHE_STATS_QUERY_KEY,
+  historyCache,
+  priceCache,
+} from "@/lib/analysis-config";
+
+const clearButtonClassName = "bg-transparent border-white/20 text-gray-300 hover:bg-white/10 hover:text-white";
+
+const LocalCacheCard = () => {
+  const queryClient = useQueryClient();
+  const { data: priceStats, isLoading: isLoadingPrices } = useQuery({
+    queryKey: PRICE_CACHE_STATS_QUERY_KEY,
+    queryFn: () => priceCache!.stats(),
+    enabled: !!priceCache,
+  });
+  const { data: historyStats, isLoading: isLoadingHistories } = useQuery({
+    queryKey: HISTORY_CACHE_STATS_QUERY_KEY,
+    queryFn: () => historyCache!.stats(),
+    enabled: !!historyCache,
+  });
+  const clearPrices = useMutation({
+    mutationFn: () => priceCache!.clear(),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PRICE_CACHE_STATS_QUERY_KEY }),
+  });
+  const clearHistories = useMutation({
+    mutationFn: () => historyCache!.clear(),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: HISTORY_CACHE_STATS_QUERY_KEY }),
+  });
+
+  if (!priceCache && !historyCache) {
+    return null;
+  }
+
+  return (
+    <Card className="bg-white/5 backdrop-blur-sm border-white/10">
+      <CardContent className="pt-6 space-y-4">
+        {priceCache && (
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center space-x-3">
+              <Database className="w-5 h-5 text-green-400" />
+              <div>
+                <p className="text-sm font-medium text-white">Price Cache</p>
+                <p className="text-xs text-gray-400">
+                  {isLoadingPrices || !priceStats
+                    ? "Loading..."
+                    : priceStats.entries === 0
+                      ? "Empty"
+                      : `${priceStats.entries.toLocaleString()} hourly prices (${priceStats.pairs.join(", ")}) from ${new Date(
+                          priceStats.oldest
+                        ).toLocaleDateString()} to ${new Date(priceStats.newest).toLocaleDateString()}`}
+                </p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => clearPrices.mutate()}
+              disabled={clearPrices.isPending || !priceStats || priceStats.entries === 0}
+              className={clearButtonClassName}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Clear cache
+            </Button>
+          </div>
+        )}
+
+        {historyCache && (
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center space-x-3">
+              <History className="w-5 h-5 text-green-400" />
+              <div>
+                <p className="text-sm font-medium text-white">Synced Histories</p>
+                <p className="text-xs text-gray-400">
+                  {isLoadingHistories || !historyStats
+                    ? "Loading..."
+                    : historyStats.histories === 0
+                      ? "Empty"
+                      : `${historyStats.transactions.toLocaleString()} transactions across ${historyStats.histories} wallet histories`}
+                </p>
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => clearHistories.mutate()}
+              disabled={clearHistories.isPending || !historyStats || historyStats.histories === 0}
+              className={clearButtonClassName}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Clear histories
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LocalCacheCard;
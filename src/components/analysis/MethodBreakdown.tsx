@@ -0,0 +1,80 @@
+import { ListTree } from "lucide-react";
+import { Bar, BarChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { AnalysisResult } from "@/lib/gas-analysis";
+
+/** Methods listed in the table; the chart shows the first few of them */
+const MAX_METHODS = 10;
+const MAX_CHART_METHODS = 6;
+
+interface MethodBreakdownProps {
+  result: AnalysisResult;
+}
+
+const chartConfig = {
+  costUSD: { label: "USD", color: "#4ade80" },
+} satisfies ChartConfig;
+
+/**
+ * Spend by called function, as a table and a bar chart of the most expensive methods
+ */
+const MethodBreakdown = ({ result }: MethodBreakdownProps) => {
+  const totalUSD = parseFloat(result.totalGasCostUSD);
+  const methods = result.methodBreakdown.slice(0, MAX_METHODS);
+
+  return (
+    <div className="bg-white/5 rounded-lg p-6 border border-white/10 mb-8">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+        <ListTree className="w-5 h-5 text-green-400 mr-2" />
+        Spend by Method
+      </h3>
+      <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto mb-4">
+        <BarChart data={methods.slice(0, MAX_CHART_METHODS)} layout="vertical">
+          <XAxis type="number" hide />
+          <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={140} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Bar dataKey="costUSD" fill="var(--color-costUSD)" radius={4} />
+        </BarChart>
+      </ChartContainer>
+      <Table>
+        <TableHeader>
+          <TableRow className="border-white/10 hover:bg-transparent">
+            <TableHead className="text-gray-400">Method</TableHead>
+            <TableHead className="text-gray-400 text-right">Transactions</TableHead>
+            <TableHead className="text-gray-400 text-right">{result.nativeSymbol}</TableHead>
+            <TableHead className="text-gray-400 text-right">USD</TableHead>
+            <TableHead className="text-gray-400 text-right">Share</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {methods.map((method) => (
+            <TableRow key={method.selector ?? method.label} className="border-white/10 hover:bg-white/5">
+              <TableCell className="text-gray-300">
+                <span className="text-white">{method.label}</span>
+                {method.signature && (
+                  <span className="block font-mono text-xs text-gray-500 truncate max-w-xs" title={method.signature}>
+                    {method.selector} {method.signature}
+                  </span>
+                )}
+              </TableCell>
+              <TableCell className="text-right text-white">{method.transactions.toLocaleString()}</TableCell>
+              <TableCell className="text-right text-white">{method.costETH.toFixed(6)}</TableCell>
+              <TableCell className="text-right text-green-400">${method.costUSD.toFixed(2)}</TableCell>
+              <TableCell className="text-right text-gray-300">
+                {totalUSD > 0 ? `${((method.costUSD / totalUSD) * 100).toFixed(1)}%` : "–"}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {result.methodBreakdown.length > MAX_METHODS && (
+        <p className="text-xs text-gray-400 mt-3">
+          Showing the {MAX_METHODS} most expensive of {result.methodBreakdown.length.toLocaleString()} methods.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MethodBreakdown;
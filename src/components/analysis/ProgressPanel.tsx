@@ -0,0 +1,96 @@
+import { useEffect, useRef } from "react";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import type { AnalysisPhase, AnalysisProgress } from "@/lib/gas-analysis";
+
+export interface ActivityLogEntry {
+  time: number;
+  message: string;
+}
+
+const PHASE_LABELS: Record<AnalysisPhase, string> = {
+  starting: "Starting",
+  history: "Fetching transaction history",
+  prices: "Loading historical prices",
+  processing: "Processing transactions",
+  done: "Complete",
+  cancelled: "Cancelled",
+  error: "Failed",
+};
+
+function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${(seconds % 60).toString().padStart(2, "0")}s`;
+}
+
+interface ProgressPanelProps {
+  progress: AnalysisProgress;
+  log: ActivityLogEntry[];
+}
+
+const ProgressPanel = ({ progress, log }: ProgressPanelProps) => {
+  const logRef = useRef<HTMLDivElement>(null);
+  const running = !["done", "cancelled", "error"].includes(progress.phase);
+
+  useEffect(() => {
+    // Scroll the log itself rather than the page
+    if (logRef.current) {
+      logRef.current.scrollTop = logRef.current.scrollHeight;
+    }
+  }, [log.length]);
+
+  const stats = [
+    { label: "Pages fetched", value: progress.pagesFetched.toLocaleString() },
+    {
+      label: "Transactions",
+      value:
+        progress.transactionsTotal > 0
+          ? `${progress.transactionsProcessed.toLocaleString()} / ${progress.transactionsTotal.toLocaleString()}`
+          : progress.transactionsFetched.toLocaleString(),
+    },
+    { label: "Prices resolved", value: progress.pricesResolved.toLocaleString() },
+    {
+      label: running ? "Time left" : "Elapsed",
+      value: running ? (progress.etaMs === null ? "–" : `~${formatDuration(progress.etaMs)}`) : formatDuration(progress.elapsedMs),
+    },
+  ];
+
+  return (
+    <Card className="bg-white/5 backdrop-blur-sm border-white/10">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center justify-between text-sm">
+          <span className="flex items-center text-white font-medium">
+            {running && <Loader2 className="w-4 h-4 mr-2 animate-spin text-green-400" />}
+            {PHASE_LABELS[progress.phase]}
+          </span>
+          <span className="text-gray-400">{progress.percent}%</span>
+        </div>
+        <Progress value={progress.percent} className="h-2 bg-white/10" />
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {stats.map((stat) => (
+            <div key={stat.label} className="bg-white/5 rounded-lg p-3 border border-white/10">
+              <p className="text-xs text-gray-400">{stat.label}</p>
+              <p className="text-sm font-semibold text-white">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div ref={logRef} className="bg-black/30 rounded-lg p-3 h-40 overflow-y-auto font-mono text-xs space-y-1">
+          {log.map((entry, index) => (
+            <p key={index} className="text-gray-300">
+              <span className="text-gray-500">{new Date(entry.time).toLocaleTimeString()}</span> {entry.message}
+            </p>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProgressPanel;
@@ -0,0 +1,68 @@
+import { Building2 } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { AnalysisResult } from "@/lib/gas-analysis";
+
+/** Counterparties listed in the table */
+const MAX_PROTOCOLS = 10;
+
+interface ProtocolBreakdownTableProps {
+  result: AnalysisResult;
+}
+
+const ProtocolBreakdownTable = ({ result }: ProtocolBreakdownTableProps) => {
+  const totalUSD = parseFloat(result.totalGasCostUSD);
+  const protocols = result.protocolBreakdown.slice(0, MAX_PROTOCOLS);
+
+  return (
+    <div className="bg-white/5 rounded-lg p-6 border border-white/10 mb-8">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+        <Building2 className="w-5 h-5 text-green-400 mr-2" />
+        Top Protocols by Gas Spend
+      </h3>
+      <Table>
+        <TableHeader>
+          <TableRow className="border-white/10 hover:bg-transparent">
+            <TableHead className="text-gray-400">Protocol</TableHead>
+            <TableHead className="text-gray-400 text-right">Transactions</TableHead>
+            <TableHead className="text-gray-400 text-right">{result.nativeSymbol}</TableHead>
+            <TableHead className="text-gray-400 text-right">USD</TableHead>
+            <TableHead className="text-gray-400 text-right">Share</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {protocols.map((protocol) => (
+            <TableRow key={protocol.label} className="border-white/10 hover:bg-white/5">
+              <TableCell className="text-gray-300">
+                {protocol.labeled ? (
+                  <>
+                    <span className="text-white">{protocol.label}</span>
+                    <span className="ml-2 text-xs text-gray-500">{protocol.category}</span>
+                  </>
+                ) : (
+                  <span className="font-mono text-sm">
+                    {protocol.addresses.length > 0
+                      ? `${protocol.label.substring(0, 8)}...${protocol.label.substring(protocol.label.length - 6)}`
+                      : protocol.label}
+                  </span>
+                )}
+              </TableCell>
+              <TableCell className="text-right text-white">{protocol.transactions.toLocaleString()}</TableCell>
+              <TableCell className="text-right text-white">{protocol.costETH.toFixed(6)}</TableCell>
+              <TableCell className="text-right text-green-400">${protocol.costUSD.toFixed(2)}</TableCell>
+              <TableCell className="text-right text-gray-300">
+                {totalUSD > 0 ? `${((protocol.costUSD / totalUSD) * 100).toFixed(1)}%` : "–"}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {result.protocolBreakdown.length > MAX_PROTOCOLS && (
+        <p className="text-xs text-gray-400 mt-3">
+          Showing the {MAX_PROTOCOLS} most expensive of {result.protocolBreakdown.length.toLocaleString()} counterparties.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ProtocolBreakdownTable;
@@ -0,0 +1,163 @@
+import { useRef, useState } from "react";
+import { Download, Tags, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BUILTIN_LABELS, LABEL_CATEGORIES, protocolLabelSchema } from "@/lib/gas-analysis";
+import type { ProtocolLabels } from "@/hooks/use-protocol-labels";
+
+const buttonClassName = "bg-transparent border-white/20 text-gray-300 hover:bg-white/10 hover:text-white";
+
+interface ProtocolLabelsCardProps {
+  registry: ProtocolLabels;
+}
+
+/**
+ * Edit, import and export the user's protocol labels
+ */
+const ProtocolLabelsCard = ({ registry }: ProtocolLabelsCardProps) => {
+  const [address, setAddress] = useState("");
+  const [name, setName] = useState("");
+  const [category, setCategory] = useState("other");
+  const [message, setMessage] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const addLabel = () => {
+    const parsed = protocolLabelSchema.safeParse({ address: address.trim(), name, category });
+    if (!parsed.success) {
+      setMessage(parsed.error.issues[0].path[0] === "address" ? "Enter a 0x contract address" : "Enter a protocol name");
+      return;
+    }
+    registry.upsert(parsed.data);
+    setAddress("");
+    setName("");
+    setMessage("");
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const count = registry.importJson(await file.text());
+      setMessage(`Imported ${count} ${count === 1 ? "label" : "labels"}`);
+    } catch (error) {
+      setMessage(error.message);
+    }
+  };
+
+  const exportFile = () => {
+    const url = URL.createObjectURL(new Blob([registry.exportJson()], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "protocol-labels.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card className="bg-white/5 backdrop-blur-sm border-white/10">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <Tags className="w-5 h-5 text-green-400" />
+            <div>
+              <p className="text-sm font-medium text-white">Protocol Labels</p>
+              <p className="text-xs text-gray-400">
+                {registry.labels.length.toLocaleString()} custom, {BUILTIN_LABELS.length} built-in
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) {
+                  importFile(file);
+                }
+                e.target.value = "";
+              }}
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className={buttonClassName}>
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={exportFile}
+              disabled={registry.labels.length === 0}
+              className={buttonClassName}
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-[2fr_1fr_1fr_auto] gap-2">
+          <Input
+            placeholder="0x contract address"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 font-mono"
+          />
+          <Input
+            placeholder="Protocol"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="bg-white/10 border-white/20 text-white placeholder:text-gray-400"
+          />
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger className="bg-white/10 border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LABEL_CATEGORIES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={addLabel} className={buttonClassName}>
+            Add
+          </Button>
+        </div>
+        {message && <p className="text-xs text-gray-400">{message}</p>}
+
+        {registry.labels.length > 0 && (
+          <div className="max-h-48 overflow-y-auto space-y-1">
+            {registry.labels.map((label) => (
+              <div
+                key={`${label.network ?? "*"}:${label.address}`}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                <span className="text-white">
+                  {label.name} <span className="text-xs text-gray-500">{label.category}</span>
+                </span>
+                <span className="flex items-center gap-2">
+                  <span className="font-mono text-xs text-gray-400">
+                    {label.address.substring(0, 8)}...{label.address.substring(label.address.length - 6)}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => registry.remove(label)}
+                    className="h-6 w-6 text-gray-400 hover:text-white hover:bg-white/10"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProtocolLabelsCard;
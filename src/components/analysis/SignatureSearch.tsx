@@ -0,0 +1,74 @@
+import { useEffect, useMemo, useState } from "react";
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { SignatureDatabase } from "@/lib/gas-analysis";
+
+interface SignatureSearchProps {
+  /** Uploaded contract ABIs, searched along with the bundled signatures */
+  abiFiles: File[];
+}
+
+/**
+ * Offline lookup in the signature database the analysis decodes methods with, by selector or name
+ */
+const SignatureSearch = ({ abiFiles }: SignatureSearchProps) => {
+  const [query, setQuery] = useState("");
+  const [database, setDatabase] = useState(() => new SignatureDatabase());
+  const [abiError, setAbiError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(abiFiles.map((file) => file.text().then((text) => ({ name: file.name, text })))).then((abis) => {
+      if (cancelled) {
+        return;
+      }
+      const next = new SignatureDatabase();
+      const errors: string[] = [];
+      for (const { name, text } of abis) {
+        try {
+          next.addAbi(text);
+        } catch (error) {
+          errors.push(`${name}: ${error.message}`);
+        }
+      }
+      setDatabase(next);
+      setAbiError(errors.join("; "));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [abiFiles]);
+
+  const matches = useMemo(() => database.search(query), [database, query]);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <Input
+          placeholder="Search signatures by selector or name, e.g. 0xa9059cbb or transfer"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="pl-9 bg-white/10 border-white/20 text-white placeholder:text-gray-400"
+        />
+      </div>
+      {abiError && <p className="text-xs text-red-400">{abiError}</p>}
+      {query.trim() &&
+        (matches.length > 0 ? (
+          <ul className="max-h-40 overflow-y-auto rounded-md border border-white/10 bg-white/5 p-2 space-y-1">
+            {matches.map(({ selector, signature }) => (
+              <li key={selector} className="font-mono text-xs">
+                <span className="text-green-400">{selector}</span> <span className="text-gray-300">{signature}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-gray-400">
+            No signature matches out of {database.size.toLocaleString()} known ones.
+          </p>
+        ))}
+    </div>
+  );
+};
+
+export default SignatureSearch;
@@ -0,0 +1,68 @@
+import { useMemo } from "react";
+import { BarChart3 } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { AnalysisResult } from "@/lib/gas-analysis";
+
+interface SpendChartProps {
+  result: AnalysisResult;
+}
+
+interface MonthBucket {
+  /** YYYY-MM, which also sorts chronologically */
+  month: string;
+  execution: number;
+  blob: number;
+}
+
+const chartConfig = {
+  execution: { label: "Gas fees", color: "#4ade80" },
+  blob: { label: "Blob fees", color: "#a78bfa" },
+} satisfies ChartConfig;
+
+/**
+ * Monthly USD spend, with blob fees stacked on top of gas fees when the wallet posted blobs
+ */
+const SpendChart = ({ result }: SpendChartProps) => {
+  const data = useMemo(() => {
+    const buckets = new Map<string, MonthBucket>();
+    for (const tx of result.transactionCosts) {
+      const month = new Date(tx.timestamp).toISOString().slice(0, 7);
+      const bucket = buckets.get(month) ?? { month, execution: 0, blob: 0 };
+      bucket.execution += tx.costUSD - tx.blobFeeUSD;
+      bucket.blob += tx.blobFeeUSD;
+      buckets.set(month, bucket);
+    }
+    return [...buckets.values()].sort((a, b) => a.month.localeCompare(b.month));
+  }, [result.transactionCosts]);
+  const hasBlobs = !!result.statistics.blobFee;
+
+  return (
+    <div className="bg-white/5 rounded-lg p-6 border border-white/10 mb-8">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+        <BarChart3 className="w-5 h-5 text-green-400 mr-2" />
+        Monthly Spend (USD)
+      </h3>
+      <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+        <BarChart data={data}>
+          <CartesianGrid vertical={false} stroke="rgba(255,255,255,0.1)" />
+          <XAxis dataKey="month" tickLine={false} axisLine={false} />
+          <YAxis tickLine={false} axisLine={false} width={60} tickFormatter={(value) => `$${value}`} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          {hasBlobs && <ChartLegend content={<ChartLegendContent />} />}
+          <Bar dataKey="execution" stackId="spend" fill="var(--color-execution)" />
+          {hasBlobs && <Bar dataKey="blob" stackId="spend" fill="var(--color-blob)" />}
+        </BarChart>
+      </ChartContainer>
+    </div>
+  );
+};
+
+export default SpendChart;
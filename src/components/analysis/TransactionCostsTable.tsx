@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { Activity } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getNetwork, type AnalysisResult } from "@/lib/gas-analysis";
+
+/** Rows shown at first and added by each "Show more" */
+const PAGE_ROWS = 25;
+
+interface TransactionCostsTableProps {
+  result: AnalysisResult;
+}
+
+/**
+ * Per-transaction costs, newest first. On rollups the L1 data fee gets its own column next to
+ * the L2 execution fee, and blob fees get one when the wallet posted blobs.
+ */
+const TransactionCostsTable = ({ result }: TransactionCostsTableProps) => {
+  const [visible, setVisible] = useState(PAGE_ROWS);
+  const showL1 = !!getNetwork(result.network).rollup;
+  const showBlobs = !!result.statistics.blobFee;
+  const rows = result.transactionCosts.slice(0, visible);
+
+  return (
+    <div className="bg-white/5 rounded-lg p-6 border border-white/10">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+        <Activity className="w-5 h-5 text-green-400 mr-2" />
+        Transaction Costs
+      </h3>
+      <Table>
+        <TableHeader>
+          <TableRow className="border-white/10 hover:bg-transparent">
+            <TableHead className="text-gray-400">Transaction</TableHead>
+            <TableHead className="text-gray-400">Date</TableHead>
+            <TableHead className="text-gray-400 text-right">{showL1 ? "L2 execution" : "Execution"}</TableHead>
+            {showL1 && <TableHead className="text-gray-400 text-right">L1 data fee</TableHead>}
+            {showBlobs && <TableHead className="text-gray-400 text-right">Blob fee</TableHead>}
+            <TableHead className="text-gray-400 text-right">Total ({result.nativeSymbol})</TableHead>
+            <TableHead className="text-gray-400 text-right">USD</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((tx) => (
+            <TableRow key={tx.userOperation?.hash ?? tx.hash} className="border-white/10 hover:bg-white/5">
+              <TableCell>
+                <p className="font-mono text-sm text-gray-300">
+                  {tx.hash.substring(0, 10)}...{tx.hash.substring(tx.hash.length - 8)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {result.addresses.length > 1 && <span className="mr-2 font-mono">{tx.address.substring(0, 8)}...</span>}
+                  {!tx.outgoing && <span className="mr-2 text-blue-400">inbound</span>}
+                  {tx.failed && <span className="mr-2 text-red-400">failed</span>}
+                  {tx.userOperation && (
+                    <span className="mr-2 text-cyan-400">
+                      {tx.userOperation.paymaster ? "sponsored user op" : "user op"}
+                    </span>
+                  )}
+                </p>
+              </TableCell>
+              <TableCell className="text-gray-300">{new Date(tx.timestamp).toLocaleDateString()}</TableCell>
+              <TableCell className="text-right text-white">
+                {(tx.costETH - tx.l1FeeETH - tx.blobFeeETH).toFixed(6)}
+                {tx.priorityFeeETH !== undefined && (
+                  <p className="text-xs text-gray-400">tip {tx.priorityFeeETH.toFixed(6)}</p>
+                )}
+                {tx.overpaidETH > 0 && <p className="text-xs text-amber-400">overpaid {tx.overpaidETH.toFixed(6)}</p>}
+              </TableCell>
+              {showL1 && <TableCell className="text-right text-purple-400">{tx.l1FeeETH.toFixed(6)}</TableCell>}
+              {showBlobs && <TableCell className="text-right text-violet-400">{tx.blobFeeETH.toFixed(6)}</TableCell>}
+              <TableCell className="text-right font-semibold text-white">{tx.costETH.toFixed(6)}</TableCell>
+              <TableCell className="text-right text-green-400">${tx.costUSD.toFixed(2)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {result.transactionCosts.length > visible && (
+        <div className="flex items-center justify-between pt-4">
+          <p className="text-xs text-gray-500">
+            Showing {visible.toLocaleString()} of {result.transactionCosts.length.toLocaleString()} transactions
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setVisible(visible + PAGE_ROWS)}
+            className="bg-transparent border-white/20 text-gray-300 hover:bg-white/10 hover:text-white"
+          >
+            Show more
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransactionCostsTable;
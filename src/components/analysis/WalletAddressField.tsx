@@ -0,0 +1,85 @@
+import { useEffect, useRef } from "react";
+import { AlertCircle, CheckCircle2, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useResolvedAddress } from "@/hooks/use-resolved-address";
+
+interface WalletAddressFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Reports the checksummed address once the input is valid (and resolved), null otherwise */
+  onResolvedChange: (address: string | null) => void;
+  /** Shows a remove button when given */
+  onRemove?: () => void;
+}
+
+const WalletAddressField = ({ value, onChange, onResolvedChange, onRemove }: WalletAddressFieldProps) => {
+  const resolved = useResolvedAddress(value);
+
+  // The parent recreates the callback on every render, so it is read through a ref and only address changes report
+  const onResolvedChangeRef = useRef(onResolvedChange);
+  useEffect(() => {
+    onResolvedChangeRef.current = onResolvedChange;
+  });
+
+  useEffect(() => {
+    onResolvedChangeRef.current(resolved.address);
+  }, [resolved.address]);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder="0x742d35Cc6434C0532925a3b8D6aC6B4fb00c8D18 or name.eth"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          aria-invalid={resolved.validation.status === "invalid" || !!resolved.error}
+          className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 focus:border-green-400 focus:ring-green-400/20"
+        />
+        {onRemove && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onRemove}
+            aria-label="Remove address"
+            className="text-gray-400 hover:text-white hover:bg-white/10 shrink-0"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      {resolved.validation.status === "invalid" && (
+        <p className="flex items-center text-xs text-red-400">
+          <AlertCircle className="w-3 h-3 mr-1" />
+          {resolved.validation.message}
+        </p>
+      )}
+      {resolved.error && (
+        <p className="flex items-center text-xs text-red-400">
+          <AlertCircle className="w-3 h-3 mr-1" />
+          {resolved.error}
+        </p>
+      )}
+      {resolved.isResolving && (
+        <p className="flex items-center text-xs text-gray-400">
+          <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+          Resolving name...
+        </p>
+      )}
+      {resolved.address && (
+        <p className="flex items-center text-xs text-green-400">
+          <CheckCircle2 className="w-3 h-3 mr-1" />
+          {resolved.validation.status === "ens" ? (
+            <>
+              Resolves to <span className="font-mono ml-1">{resolved.address}</span>
+            </>
+          ) : (
+            "Valid address"
+          )}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default WalletAddressField;
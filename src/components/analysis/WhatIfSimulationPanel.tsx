@@ -0,0 +1,135 @@
+import { useMemo, useState } from "react";
+import { FlaskConical } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LATER_BASE_FEE_HOURS, simulateFees, type AnalysisResult, type FeeSimulation } from "@/lib/gas-analysis";
+
+/** Highest gas price cap accepted, in gwei; far above any real gas price */
+const MAX_GAS_PRICE_CAP_GWEI = 1_000_000;
+
+interface WhatIfSimulationPanelProps {
+  result: AnalysisResult;
+}
+
+/** Parse a non-negative number input, falling back when it is empty or invalid */
+function parseAmount(value: string, fallback: number, max: number): number {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.min(parsed, max) : fallback;
+}
+
+/**
+ * Replays the wallet's transactions under alternative fee strategies and compares them with what was paid.
+ * The delay scenario is only offered when the analysis sampled later base fees.
+ */
+const WhatIfSimulationPanel = ({ result }: WhatIfSimulationPanelProps) => {
+  const [delayHours, setDelayHours] = useState("6");
+  const [capGwei, setCapGwei] = useState("20");
+
+  const hours = Math.floor(parseAmount(delayHours, 0, LATER_BASE_FEE_HOURS));
+  const gwei = parseAmount(capGwei, 0, MAX_GAS_PRICE_CAP_GWEI);
+  const delaySampled = useMemo(() => result.transactionCosts.some((tx) => tx.laterBaseFees), [result.transactionCosts]);
+  const rows = useMemo(
+    (): { label: string; simulation: FeeSimulation }[] => [
+      {
+        label: "Pay the block's median tip",
+        simulation: simulateFees(result.transactionCosts, { kind: "median-tip" }),
+      },
+      ...(delaySampled
+        ? [
+            {
+              label: `Delay up to ${hours}h to the cheapest hour`,
+              simulation: simulateFees(result.transactionCosts, { kind: "delay", hours }),
+            },
+          ]
+        : []),
+      {
+        label: `Cap gas price at ${gwei} gwei`,
+        simulation: simulateFees(result.transactionCosts, { kind: "gas-price-cap", gwei }),
+      },
+    ],
+    [result.transactionCosts, delaySampled, hours, gwei]
+  );
+  const cap = rows[rows.length - 1].simulation;
+
+  return (
+    <div className="bg-white/5 rounded-lg p-6 border border-white/10 mb-8">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
+        <FlaskConical className="w-5 h-5 text-green-400 mr-2" />
+        What-If Fee Simulation
+      </h3>
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        {delaySampled && (
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-white">Delay (hours)</label>
+            <Input
+              type="number"
+              min={0}
+              max={LATER_BASE_FEE_HOURS}
+              value={delayHours}
+              onChange={(e) => setDelayHours(e.target.value)}
+              className="bg-white/10 border-white/20 text-white"
+            />
+          </div>
+        )}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-white">Gas price cap (gwei)</label>
+          <Input
+            type="number"
+            min={0}
+            max={MAX_GAS_PRICE_CAP_GWEI}
+            step="any"
+            value={capGwei}
+            onChange={(e) => setCapGwei(e.target.value)}
+            className="bg-white/10 border-white/20 text-white"
+          />
+        </div>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow className="border-white/10 hover:bg-transparent">
+            <TableHead className="text-gray-400">Scenario</TableHead>
+            <TableHead className="text-gray-400 text-right">Transactions</TableHead>
+            <TableHead className="text-gray-400 text-right">{result.nativeSymbol}</TableHead>
+            <TableHead className="text-gray-400 text-right">USD</TableHead>
+            <TableHead className="text-gray-400 text-right">Savings</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          <TableRow className="border-white/10 hover:bg-white/5">
+            <TableCell className="text-white">Actual</TableCell>
+            <TableCell className="text-right text-gray-300">
+              {result.transactionCosts.length.toLocaleString()}
+            </TableCell>
+            <TableCell className="text-right text-white">{rows[0].simulation.actualETH.toFixed(6)}</TableCell>
+            <TableCell className="text-right text-green-400">${rows[0].simulation.actualUSD.toFixed(2)}</TableCell>
+            <TableCell />
+          </TableRow>
+          {rows.map(({ label, simulation }) => (
+            <TableRow key={simulation.scenario.kind} className="border-white/10 hover:bg-white/5">
+              <TableCell className="text-gray-300">{label}</TableCell>
+              <TableCell className="text-right text-gray-300">{simulation.simulated.toLocaleString()}</TableCell>
+              <TableCell className="text-right text-white">{simulation.simulatedETH.toFixed(6)}</TableCell>
+              <TableCell className="text-right text-green-400">${simulation.simulatedUSD.toFixed(2)}</TableCell>
+              <TableCell className={`text-right ${simulation.savingsUSD < 0 ? "text-red-400" : "text-amber-400"}`}>
+                ${simulation.savingsUSD.toFixed(2)} ({simulation.savingsETH.toFixed(6)})
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <p className="text-xs text-gray-500 mt-4">
+        Only the execution fee of transactions the wallet sent is replayed; the Transactions column counts those
+        each scenario could be applied to.
+        {delaySampled
+          ? " Delays compare against base fees sampled once per hour after each transaction."
+          : " Turn on the delay simulation before analyzing to also compare against later base fees."}
+        {cap.priceExcluded > 0 &&
+          ` ${cap.priceExcluded.toLocaleString()} ${
+            cap.priceExcluded === 1 ? "transaction's block base fee was" : "transactions' block base fees were"
+          } above the cap, so they could not have been included then and keep their actual cost.`}
+      </p>
+    </div>
+  );
+};
+
+export default WhatIfSimulationPanel;
@@ -0,0 +1,66 @@
+import { useCallback, useState } from "react";
+import { parseLabels, type ProtocolLabel } from "@/lib/gas-analysis";
+
+const STORAGE_KEY = "gas-checker:protocol-labels";
+
+function loadLabels(): ProtocolLabel[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseLabels(stored) : [];
+  } catch (error) {
+    console.warn(`Ignoring stored protocol labels: ${error.message}`);
+    return [];
+  }
+}
+
+function sameLabel(a: ProtocolLabel, b: ProtocolLabel): boolean {
+  return a.address.toLowerCase() === b.address.toLowerCase() && a.network === b.network;
+}
+
+export interface ProtocolLabels {
+  labels: ProtocolLabel[];
+  /** Add a label, replacing any for the same address and network */
+  upsert: (label: ProtocolLabel) => void;
+  remove: (label: ProtocolLabel) => void;
+  /** Merge labels from JSON text; throws on invalid input without changing anything */
+  importJson: (text: string) => number;
+  exportJson: () => string;
+}
+
+/**
+ * User protocol labels, persisted in localStorage
+ */
+export function useProtocolLabels(): ProtocolLabels {
+  const [labels, setLabels] = useState<ProtocolLabel[]>(loadLabels);
+
+  const save = useCallback((update: (current: ProtocolLabel[]) => ProtocolLabel[]) => {
+    setLabels((current) => {
+      const next = update(current);
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const upsert = useCallback(
+    (label: ProtocolLabel) => save((current) => [...current.filter((entry) => !sameLabel(entry, label)), label]),
+    [save]
+  );
+  const remove = useCallback(
+    (label: ProtocolLabel) => save((current) => current.filter((entry) => !sameLabel(entry, label))),
+    [save]
+  );
+  const importJson = useCallback(
+    (text: string) => {
+      const imported = parseLabels(text);
+      save((current) => [
+        ...current.filter((entry) => !imported.some((label) => sameLabel(entry, label))),
+        ...imported,
+      ]);
+      return imported.length;
+    },
+    [save]
+  );
+  const exportJson = useCallback(() => JSON.stringify(labels, null, 2), [labels]);
+
+  return { labels, upsert, remove, importJson, exportJson };
+}
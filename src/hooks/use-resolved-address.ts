@@ -0,0 +1,50 @@
+import { useQuery } from "@tanstack/react-query";
+import { resolveEnsName, validateAddress, type AddressValidation } from "@/lib/gas-analysis";
+import { ENS_RPC_URL } from "@/lib/analysis-config";
+
+export interface ResolvedAddress {
+  validation: AddressValidation;
+  /** Checksummed address to analyze; null until the input is valid and any ENS name has resolved */
+  address: string | null;
+  isResolving: boolean;
+  /** Why an ENS name could not be resolved */
+  error: string | null;
+}
+
+/**
+ * Validate wallet input and resolve ENS names to an address
+ */
+export function useResolvedAddress(input: string): ResolvedAddress {
+  const validation = validateAddress(input);
+  const name = validation.status === "ens" ? validation.name : "";
+
+  const { data, isFetching, error } = useQuery({
+    queryKey: ["ens-address", name],
+    queryFn: ({ signal }) => resolveEnsName(ENS_RPC_URL, name, signal),
+    enabled: !!name && !!ENS_RPC_URL,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+
+  if (validation.status === "valid") {
+    return { validation, address: validation.address, isResolving: false, error: null };
+  }
+  if (validation.status !== "ens") {
+    return { validation, address: null, isResolving: false, error: null };
+  }
+  if (!ENS_RPC_URL) {
+    return { validation, address: null, isResolving: false, error: "ENS unavailable: set VITE_ENS_RPC_URL or VITE_ALCHEMY_API_KEY" };
+  }
+  if (isFetching) {
+    return { validation, address: null, isResolving: true, error: null };
+  }
+  if (error) {
+    return { validation, address: null, isResolving: false, error: `Could not resolve ${name}: ${error.message}` };
+  }
+  return {
+    validation,
+    address: data ?? null,
+    isResolving: false,
+    error: data === null ? `${name} has no address record` : null,
+  };
+}
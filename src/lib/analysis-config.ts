@@ -0,0 +1,93 @@
+import {
+  IndexedDbHistoryCache,
+  IndexedDbPriceCache,
+  type HistoryProviderConfig,
+  type HistoryProviderKind,
+  type PriceProviderConfig,
+  type PriceProviderKind,
+  type SchedulerOptions,
+} from "@/lib/gas-analysis";
+
+export const ALCHEMY_API_KEY = import.meta.env.VITE_ALCHEMY_API_KEY ?? "";
+
+/**
+ * Ethereum mainnet JSON-RPC endpoint used for ENS name resolution, or empty when ENS is unavailable.
+ * VITE_RPC_URL is not used since it may point at another chain, where the ENS registry does not exist.
+ */
+export const ENS_RPC_URL =
+  import.meta.env.VITE_ENS_RPC_URL || (ALCHEMY_API_KEY ? `https://eth-mainnet.g.alchemy.com/v2/${ALCHEMY_API_KEY}` : "");
+
+/**
+ * JSON-RPC endpoint of the given network, used for block base fees and rollup receipts.
+ * Alchemy serves every supported network; VITE_RPC_URL is assumed to point at the analyzed one.
+ */
+export function getNetworkRpcUrl(network: string): string | undefined {
+  if (ALCHEMY_API_KEY) {
+    return `https://${network}.g.alchemy.com/v2/${ALCHEMY_API_KEY}`;
+  }
+  return import.meta.env.VITE_RPC_URL || undefined;
+}
+
+/** Provider request settings; concurrency can be tuned per deployment to match API quotas */
+export const REQUEST_OPTIONS: SchedulerOptions = {
+  concurrency: Number(import.meta.env.VITE_REQUEST_CONCURRENCY) || undefined,
+};
+
+export const HISTORY_PROVIDERS: { kind: HistoryProviderKind; label: string; configured: boolean }[] = [
+  { kind: "alchemy", label: "Alchemy", configured: !!import.meta.env.VITE_ALCHEMY_API_KEY },
+  { kind: "etherscan", label: "Etherscan", configured: !!import.meta.env.VITE_ETHERSCAN_API_KEY },
+  { kind: "json-rpc", label: "JSON-RPC node", configured: !!import.meta.env.VITE_RPC_URL },
+];
+
+/**
+ * Build the provider configuration for the given kind from VITE_* environment variables
+ */
+export function getHistoryProviderConfig(kind: HistoryProviderKind): HistoryProviderConfig {
+  switch (kind) {
+    case "alchemy":
+      return { kind, apiKey: ALCHEMY_API_KEY };
+    case "etherscan":
+      return {
+        kind,
+        apiKey: import.meta.env.VITE_ETHERSCAN_API_KEY ?? "",
+        baseUrl: import.meta.env.VITE_ETHERSCAN_BASE_URL || undefined,
+      };
+    case "json-rpc":
+      return { kind, rpcUrl: import.meta.env.VITE_RPC_URL ?? "" };
+  }
+}
+
+export const PRICE_PROVIDERS: { kind: PriceProviderKind; label: string; configured: boolean }[] = [
+  { kind: "alchemy", label: "Alchemy", configured: !!import.meta.env.VITE_ALCHEMY_API_KEY },
+  // The public CoinGecko API works without a key
+  { kind: "coingecko", label: "CoinGecko", configured: true },
+  { kind: "price-file", label: "Local price file (CSV/JSON)", configured: true },
+];
+
+/**
+ * Build the price provider configuration for the given kind.
+ * The price file contents are supplied by the caller since they come from a file picker.
+ */
+export function getPriceProviderConfig(kind: PriceProviderKind, priceFileText = ""): PriceProviderConfig {
+  switch (kind) {
+    case "alchemy":
+      return { kind, apiKey: ALCHEMY_API_KEY };
+    case "coingecko":
+      return {
+        kind,
+        apiKey: import.meta.env.VITE_COINGECKO_API_KEY || undefined,
+        baseUrl: import.meta.env.VITE_COINGECKO_BASE_URL || undefined,
+      };
+    case "price-file":
+      return { kind, text: priceFileText };
+  }
+}
+
+/** Shared browser price cache; undefined where IndexedDB is unavailable */
+export const priceCache = IndexedDbPriceCache.isSupported() ? new IndexedDbPriceCache() : undefined;
+
+/** Shared browser store of synced transaction histories */
+export const historyCache = IndexedDbHistoryCache.isSupported() ? new IndexedDbHistoryCache() : undefined;
+
+export const PRICE_CACHE_STATS_QUERY_KEY = ["price-cache-stats"];
+export const HISTORY_CACHE_STATS_QUERY_KEY = ["history-cache-stats"];
@@ -0,0 +1,62 @@
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+export type AddressValidation =
+  | { status: "empty" }
+  | { status: "valid"; address: string }
+  | { status: "ens"; name: string }
+  | { status: "invalid"; message: string };
+
+/**
+ * EIP-55 mixed-case checksum encoding of a hex address
+ */
+export function toChecksumAddress(address: string): string {
+  if (!ADDRESS_PATTERN.test(address)) {
+    throw new Error(`Invalid address ${address}`);
+  }
+  const lower = address.slice(2).toLowerCase();
+  const hash = bytesToHex(keccak_256(utf8ToBytes(lower)));
+  let checksummed = "0x";
+  for (let i = 0; i < lower.length; i++) {
+    // A letter is uppercased when the matching nibble of the hash is 8 or more
+    checksummed += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return checksummed;
+}
+
+/** Names resolved through ENS; only .eth names are recognised */
+export function isEnsName(input: string): boolean {
+  return /^([a-z0-9-_]+\.)+eth$/i.test(input);
+}
+
+/**
+ * Check user input as either a hex address or an ENS name. An uppercase 0X prefix is accepted and normalized.
+ * All-lowercase and all-uppercase addresses carry no checksum and are accepted as is;
+ * mixed-case addresses must match their EIP-55 checksum.
+ */
+export function validateAddress(input: string): AddressValidation {
+  const value = input.trim();
+  if (!value) {
+    return { status: "empty" };
+  }
+  if (isEnsName(value)) {
+    return { status: "ens", name: value.toLowerCase() };
+  }
+  if (!/^0x/i.test(value)) {
+    return { status: "invalid", message: "Addresses start with 0x; names must end in .eth" };
+  }
+  const address = `0x${value.slice(2)}`;
+  if (!ADDRESS_PATTERN.test(address)) {
+    return { status: "invalid", message: "An address is 0x followed by 40 hexadecimal characters" };
+  }
+
+  const checksummed = toChecksumAddress(address);
+  const body = address.slice(2);
+  const hasChecksum = body !== body.toLowerCase() && body !== body.toUpperCase();
+  if (hasChecksum && address !== checksummed) {
+    return { status: "invalid", message: "Checksum mismatch: the address may contain a typo" };
+  }
+  return { status: "valid", address: checksummed };
+}
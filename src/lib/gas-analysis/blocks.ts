@@ -0,0 +1,227 @@
+import { z } from "zod";
+import { parseRows, type Diagnostics } from "./diagnostics";
+import { HOUR_MS, toHourBucket } from "./prices";
+import { rpcBatch } from "./rpc";
+import { scheduled, type RequestScheduler } from "./scheduler";
+import { quantitySchema, timestampSchema } from "./schemas";
+import type { Transaction } from "./types";
+
+/** Block headers requested per JSON-RPC batch */
+const BLOCK_BATCH_SIZE = 50;
+
+const blockHeaderSchema = z.object({
+  number: quantitySchema,
+  timestamp: timestampSchema,
+  /** Absent before the London hard fork (EIP-1559) */
+  baseFeePerGas: quantitySchema.nullish(),
+});
+
+export type BlockHeader = z.infer<typeof blockHeaderSchema>;
+
+/**
+ * Fetch block headers in one JSON-RPC batch, keyed by decimal block number.
+ * Unknown and malformed blocks are left out.
+ */
+export async function fetchBlockHeaders(
+  rpcUrl: string,
+  blockNumbers: string[],
+  options: { signal?: AbortSignal; diagnostics?: Diagnostics } = {}
+): Promise<Map<string, BlockHeader>> {
+  const raw = await rpcBatch<unknown>(
+    rpcUrl,
+    blockNumbers.map((n) => ({ method: "eth_getBlockByNumber", params: [`0x${BigInt(n).toString(16)}`, false] })),
+    options.signal,
+    options.diagnostics
+  );
+  const blocks = parseRows(
+    blockHeaderSchema.nullable(),
+    raw,
+    "JSON-RPC block",
+    options.diagnostics,
+    (_block, index) => `block ${blockNumbers[index]}`
+  ).filter((block) => block !== null);
+  return new Map(blocks.map((block) => [block.number, block]));
+}
+
+export interface EnrichBaseFeesOptions {
+  scheduler?: RequestScheduler;
+  signal?: AbortSignal;
+  diagnostics?: Diagnostics;
+  onLog?: (message: string) => void;
+}
+
+/**
+ * Fill in the block base fee of transactions that do not have one yet, one request per distinct block.
+ * Failed batches are recorded as diagnostics and their transactions left as they were.
+ */
+export async function enrichWithBaseFees(
+  rpcUrl: string,
+  transactions: Transaction[],
+  options: EnrichBaseFeesOptions = {}
+): Promise<Transaction[]> {
+  const { scheduler, signal, diagnostics, onLog } = options;
+  const blockNumbers = [
+    ...new Set(
+      transactions
+        .filter((tx) => tx.baseFeePerGas === undefined && tx.blockNumber !== undefined)
+        .map((tx) => tx.blockNumber)
+    ),
+  ];
+  if (blockNumbers.length === 0) {
+    return transactions;
+  }
+
+  onLog?.(`Fetching base fees for ${blockNumbers.length.toLocaleString()} blocks...`);
+  const baseFees = new Map<string, string | null>();
+  const batches: string[][] = [];
+  for (let i = 0; i < blockNumbers.length; i += BLOCK_BATCH_SIZE) {
+    batches.push(blockNumbers.slice(i, i + BLOCK_BATCH_SIZE));
+  }
+
+  await Promise.all(
+    batches.map(async (numbers, index) => {
+      const label = `Base fee batch ${index + 1}/${batches.length}`;
+      try {
+        const batch = await scheduled(scheduler, label, () =>
+          fetchBlockHeaders(rpcUrl, numbers, { signal, diagnostics })
+        );
+        for (const [number, header] of batch) {
+          // Blocks from before EIP-1559 are recorded as null so they are not fetched again
+          baseFees.set(number, header.baseFeePerGas ?? null);
+        }
+      } catch (error) {
+        if (!signal?.aborted) {
+          diagnostics?.add({
+            kind: "failed-request",
+            source: "JSON-RPC block",
+            message: `${error.message}; these transactions lack a base fee`,
+            subject: label,
+          });
+        }
+      }
+    })
+  );
+  signal?.throwIfAborted();
+
+  return transactions.map((tx) =>
+    tx.baseFeePerGas === undefined && baseFees.has(tx.blockNumber)
+      ? { ...tx, baseFeePerGas: baseFees.get(tx.blockNumber) }
+      : tx
+  );
+}
+
+/** Hours after each transaction whose base fee is sampled for the delay simulation */
+export const LATER_BASE_FEE_HOURS = 24;
+
+export interface EnrichLaterBaseFeesOptions extends EnrichBaseFeesOptions {
+  /** Typical block interval of the network, for transactions without usable neighbours */
+  blockTimeMs: number;
+  /** Only transactions sent from these addresses are sampled; every transaction when absent */
+  senders?: string[];
+}
+
+/**
+ * Sample the base fee of each of the LATER_BASE_FEE_HOURS hours after every post-EIP-1559 transaction, so the
+ * delay simulation sees what waiting would have cost. One block header near the middle of each hour is fetched,
+ * located from the block interval between the transaction and a neighbouring one; hours shared by several
+ * transactions are sampled once, and a header's own timestamp decides which hour it counts for.
+ * Transactions whose window has not ended yet, or whose samples failed to load, are left for a later run.
+ */
+export async function enrichWithLaterBaseFees(
+  rpcUrl: string,
+  transactions: Transaction[],
+  options: EnrichLaterBaseFeesOptions
+): Promise<Transaction[]> {
+  const { blockTimeMs, senders, scheduler, signal, diagnostics, onLog } = options;
+  const senderSet = senders && new Set(senders.map((sender) => sender.toLowerCase()));
+  const windowEnd = Date.now() - (LATER_BASE_FEE_HOURS + 1) * HOUR_MS;
+  const located = transactions
+    .filter((tx) => tx.blockNumber !== undefined && tx.blockTimestamp !== undefined)
+    .sort((a, b) => Number(a.blockNumber) - Number(b.blockNumber));
+
+  // Hour bucket to the block sampled for it
+  const samples = new Map<number, number>();
+  const pending = new Set<Transaction>();
+  located.forEach((tx, index) => {
+    if (
+      tx.laterBaseFees !== undefined ||
+      typeof tx.baseFeePerGas !== "string" ||
+      (senderSet && !senderSet.has(tx.from?.toLowerCase())) ||
+      tx.blockTimestamp > windowEnd
+    ) {
+      return;
+    }
+    pending.add(tx);
+    const neighbour = located[index + 1] ?? located[index - 1];
+    const blocks = neighbour ? Math.abs(Number(neighbour.blockNumber) - Number(tx.blockNumber)) : 0;
+    const elapsed = neighbour ? Math.abs(neighbour.blockTimestamp - tx.blockTimestamp) : 0;
+    const interval = blocks > 0 && elapsed > 0 ? elapsed / blocks : blockTimeMs;
+    const hour = toHourBucket(tx.blockTimestamp);
+    for (let later = 1; later <= LATER_BASE_FEE_HOURS; later++) {
+      const bucket = hour + later * HOUR_MS;
+      if (!samples.has(bucket)) {
+        const offset = Math.round((bucket + HOUR_MS / 2 - tx.blockTimestamp) / interval);
+        samples.set(bucket, Number(tx.blockNumber) + offset);
+      }
+    }
+  });
+  if (pending.size === 0) {
+    return transactions;
+  }
+
+  const blockNumbers = [...new Set(samples.values())].map(String);
+  onLog?.(`Sampling base fees of ${blockNumbers.length.toLocaleString()} later hours...`);
+  // Lowest sampled base fee of each hour, by the sampled header's timestamp
+  const hourly = new Map<number, bigint>();
+  const failedBlocks = new Set<string>();
+  const batches: string[][] = [];
+  for (let i = 0; i < blockNumbers.length; i += BLOCK_BATCH_SIZE) {
+    batches.push(blockNumbers.slice(i, i + BLOCK_BATCH_SIZE));
+  }
+
+  await Promise.all(
+    batches.map(async (numbers, index) => {
+      const label = `Later base fee batch ${index + 1}/${batches.length}`;
+      try {
+        const batch = await scheduled(scheduler, label, () =>
+          fetchBlockHeaders(rpcUrl, numbers, { signal, diagnostics })
+        );
+        for (const header of batch.values()) {
+          if (!header.baseFeePerGas) {
+            continue;
+          }
+          const bucket = toHourBucket(header.timestamp);
+          const baseFee = BigInt(header.baseFeePerGas);
+          if (!hourly.has(bucket) || baseFee < hourly.get(bucket)) {
+            hourly.set(bucket, baseFee);
+          }
+        }
+      } catch (error) {
+        for (const number of numbers) {
+          failedBlocks.add(number);
+        }
+        if (!signal?.aborted) {
+          diagnostics?.add({
+            kind: "failed-request",
+            source: "JSON-RPC block",
+            message: `${error.message}; the delay simulation lacks these hours`,
+            subject: label,
+          });
+        }
+      }
+    })
+  );
+  signal?.throwIfAborted();
+
+  return transactions.map((tx) => {
+    if (!pending.has(tx)) {
+      return tx;
+    }
+    const hour = toHourBucket(tx.blockTimestamp);
+    const buckets = Array.from({ length: LATER_BASE_FEE_HOURS }, (_, index) => hour + (index + 1) * HOUR_MS);
+    if (buckets.some((bucket) => failedBlocks.has(String(samples.get(bucket))))) {
+      return tx;
+    }
+    return { ...tx, laterBaseFees: buckets.map((bucket) => hourly.get(bucket)?.toString() ?? null) };
+  });
+}
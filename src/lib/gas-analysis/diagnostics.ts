@@ -0,0 +1,113 @@
+import type { ZodError, ZodType, ZodTypeDef } from "zod";
+import { ResponseValidationError } from "./errors";
+
+export type DiagnosticKind =
+  /** A provider response envelope did not match its schema; the whole response was rejected */
+  | "invalid-response"
+  /** A single row (transaction, block, receipt, price point) was malformed and dropped */
+  | "invalid-row"
+  /** A transaction was fetched but left out of the totals */
+  | "skipped-transaction"
+  /** A transaction was priced with the last known price instead of its own hour */
+  | "price-fallback"
+  /** Receipt-only fee components could not be included for a transaction */
+  | "missing-receipt"
+  /** A request failed for good, so the data it would have provided is missing */
+  | "failed-request";
+
+export interface Diagnostic {
+  kind: DiagnosticKind;
+  /** Where the problem was found, e.g. "Alchemy history" or "Engine" */
+  source: string;
+  message: string;
+  /** Transaction hash, block number or row index the diagnostic refers to */
+  subject?: string;
+}
+
+/** Only the first entries are kept so a systematically broken provider cannot flood memory */
+const MAX_DIAGNOSTICS = 500;
+
+/**
+ * Collects data-quality problems found during an analysis
+ */
+export class Diagnostics {
+  private readonly entries: Diagnostic[] = [];
+  private dropped = 0;
+
+  add(diagnostic: Diagnostic): void {
+    if (this.entries.length < MAX_DIAGNOSTICS) {
+      this.entries.push(diagnostic);
+    } else {
+      this.dropped++;
+    }
+  }
+
+  /** Entries in the order they were found */
+  list(): Diagnostic[] {
+    return [...this.entries];
+  }
+
+  /** Total number of problems, including those beyond the stored limit */
+  get count(): number {
+    return this.entries.length + this.dropped;
+  }
+}
+
+function describeZodError(error: ZodError): string {
+  return error.issues
+    .slice(0, 3)
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+/**
+ * Validate a whole provider response. A mismatch is recorded and thrown as ResponseValidationError.
+ */
+export function parseResponse<T>(
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  data: unknown,
+  source: string,
+  diagnostics?: Diagnostics
+): T {
+  const parsed = schema.safeParse(data);
+  if (parsed.success) {
+    return parsed.data;
+  }
+  const message = describeZodError(parsed.error);
+  diagnostics?.add({ kind: "invalid-response", source, message });
+  throw new ResponseValidationError(source, message);
+}
+
+/**
+ * Validate rows one by one, keeping the valid ones and recording each rejected row
+ */
+export function parseRows<T>(
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  rows: unknown[],
+  source: string,
+  diagnostics?: Diagnostics,
+  subjectOf: (row: unknown, index: number) => string | undefined = (_row, index) => `row ${index}`
+): T[] {
+  const valid: T[] = [];
+  rows.forEach((row, index) => {
+    const parsed = schema.safeParse(row);
+    if (parsed.success) {
+      valid.push(parsed.data);
+    } else {
+      diagnostics?.add({
+        kind: "invalid-row",
+        source,
+        message: describeZodError(parsed.error),
+        subject: subjectOf(row, index),
+      });
+    }
+  });
+  return valid;
+}
+
+/** Subject for rows that carry a transaction hash */
+export function hashSubject(row: unknown, index: number): string {
+  const record = row as { hash?: unknown; transactionHash?: unknown } | null;
+  const hash = record?.hash ?? record?.transactionHash;
+  return typeof hash === "string" ? hash : `row ${index}`;
+}
@@ -0,0 +1,837 @@
+import { syncTransactionHistory, type HistoryCache, type TransactionHistoryProvider } from "./history";
+import { Diagnostics } from "./diagnostics";
+import { AnalysisCancelledError } from "./errors";
+import {
+  PriceTable,
+  loadPriceTable,
+  type LoadPriceTableOptions,
+  type PriceCache,
+  type PriceProvider,
+} from "./prices";
+import { LabelRegistry } from "./labels";
+import { DEFAULT_NETWORK, getNetwork, nativeSymbolAt, type NetworkInfo } from "./networks";
+import { ProgressTracker, type ProgressCallback } from "./progress";
+import { enrichWithBaseFees, enrichWithLaterBaseFees } from "./blocks";
+import { MEDIAN_REWARD_INDEX, enrichWithFeeHistory } from "./fee-history";
+import { enrichWithReceipts } from "./receipts";
+import { fetchUserOperations, isEntryPoint, type UserOperation } from "./user-operations";
+import { RequestScheduler, type SchedulerOptions } from "./scheduler";
+import { SignatureDatabase, methodName } from "./signatures";
+import { weiToNative } from "./utils";
+import type {
+  AddressBreakdown,
+  AnalysisResult,
+  AnalysisStatistics,
+  FeeAttribution,
+  MethodSpend,
+  ProtocolSpend,
+  Transaction,
+  TxCost,
+} from "./types";
+
+const PRICE_CURRENCY = "USD";
+/** Processed-transaction interval between progress snapshots */
+const PROCESSING_PROGRESS_INTERVAL = 100;
+/** Failed transactions listed in the statistics */
+const MAX_COSTLIEST_FAILURES = 5;
+
+export interface AnalysisOptions {
+  historyProvider: TransactionHistoryProvider;
+  priceProvider: PriceProvider;
+  /** Persistent store of synced histories; when given only newer transactions are fetched */
+  historyCache?: HistoryCache;
+  /** Persistent store consulted before the price provider */
+  priceCache?: PriceCache;
+  network?: string;
+  /**
+   * JSON-RPC endpoint of the analyzed network, used to fetch fee details the history provider
+   * does not report: block base fees, rollup receipt fields and ERC-4337 user operations
+   */
+  rpcUrl?: string;
+  /**
+   * Sample the base fee of each hour after the wallet's transactions for the what-if delay simulation.
+   * Off by default since it costs about one block header request per hour following each transaction.
+   */
+  sampleLaterBaseFees?: boolean;
+  /** Decodes method selectors; defaults to the bundled dataset */
+  signatures?: SignatureDatabase;
+  /** Names counterparties; defaults to the built-in labels */
+  labels?: LabelRegistry;
+  /** Defaults to "sender": only fees the analyzed addresses paid themselves are counted */
+  attribution?: FeeAttribution;
+  /** Concurrency and retry settings shared by every provider request of the analysis */
+  requestOptions?: SchedulerOptions;
+  /** Cancels every outstanding provider request; the analysis then rejects with AnalysisCancelledError */
+  signal?: AbortSignal;
+  onProgress?: ProgressCallback;
+}
+
+interface PortfolioHistory {
+  /** Union of every address history, one entry per transaction */
+  transactions: Transaction[];
+  /** Lowercased hash to the analyzed address whose history the kept copy came from */
+  historyOwner: Map<string, string>;
+  /** Transactions sent from one analyzed address to another */
+  internalTransactions: number;
+}
+
+/**
+ * Sync the history of every address and merge them. A transaction between two analyzed
+ * addresses shows up in both histories and is kept only once, preferring the sender's copy
+ * since enrichment that only applies to sent transactions is done in the sender's history.
+ */
+async function loadPortfolioHistory(
+  addresses: string[],
+  load: (address: string) => Promise<Transaction[]>
+): Promise<PortfolioHistory> {
+  // Histories are synced side by side; the shared scheduler bounds the request load
+  const histories = await Promise.all(addresses.map(load));
+  const owned = new Set(addresses.map((address) => address.toLowerCase()));
+
+  const byHash = new Map<string, Transaction>();
+  const historyOwner = new Map<string, string>();
+  histories.forEach((transactions, index) => {
+    for (const tx of transactions) {
+      const hash = tx.hash.toLowerCase();
+      if (!byHash.has(hash) || tx.from?.toLowerCase() === addresses[index].toLowerCase()) {
+        byHash.set(hash, tx);
+        historyOwner.set(hash, addresses[index]);
+      }
+    }
+  });
+
+  let internalTransactions = 0;
+  for (const tx of byHash.values()) {
+    if (owned.has(tx.from?.toLowerCase()) && owned.has(tx.to?.toLowerCase())) {
+      internalTransactions++;
+    }
+  }
+
+  return { transactions: [...byHash.values()], historyOwner, internalTransactions };
+}
+
+/**
+ * Load the ERC-4337 user operations of every analyzed address, deduplicated by user operation hash.
+ * Addresses that are not smart accounts simply have none. With a history cache, operations are stored
+ * next to the address history and only blocks after the last scan are searched again. A failed lookup
+ * is recorded as a diagnostic and skipped, since the regular history is still complete without it.
+ */
+async function loadUserOperations(
+  rpcUrl: string,
+  addresses: string[],
+  options: {
+    network: NetworkInfo;
+    /** History cache and the provider name its records are keyed by */
+    cache?: HistoryCache;
+    provider: string;
+    scheduler: RequestScheduler;
+    signal?: AbortSignal;
+    diagnostics: Diagnostics;
+    progress: ProgressTracker;
+  }
+): Promise<UserOperation[]> {
+  const { network, cache, provider, scheduler, signal, diagnostics, progress } = options;
+  const byHash = new Map<string, UserOperation>();
+  await Promise.all(
+    addresses.map(async (address) => {
+      try {
+        // The history sync has just stored the record, so it only exists for completely synced addresses
+        const stored = await cache?.get(address, network.id, provider).catch((error) => {
+          diagnostics.add({
+            kind: "failed-request",
+            source: "History cache",
+            message: `${error.message}; user operations are searched from the first EntryPoint deployment`,
+            subject: address,
+          });
+          return null;
+        });
+        const scan = await fetchUserOperations(rpcUrl, address, {
+          fromBlock: stored?.userOperations ? stored.userOperations.scannedBlock + 1 : network.entryPointBlock,
+          scheduler,
+          signal,
+          diagnostics,
+        });
+        const operations = (stored?.userOperations?.operations ?? []).concat(scan.operations);
+        for (const operation of operations) {
+          byHash.set(operation.userOpHash, operation);
+        }
+        if (stored && scan.toBlock !== undefined) {
+          await cache
+            .put({ ...stored, userOperations: { scannedBlock: scan.toBlock, operations } })
+            .catch((error) =>
+              diagnostics.add({
+                kind: "failed-request",
+                source: "History cache",
+                message: `${error.message}; the next analysis searches these blocks for user operations again`,
+                subject: address,
+              })
+            );
+        }
+      } catch (error) {
+        if (!signal?.aborted) {
+          progress.log(`Could not load user operations for ${address}: ${error.message}`);
+          diagnostics.add({
+            kind: "failed-request",
+            source: "EntryPoint logs",
+            message: `${error.message}; user operations of this address are not included`,
+            subject: address,
+          });
+        }
+      }
+    })
+  );
+  if (byHash.size > 0) {
+    progress.log(`Found ${byHash.size.toLocaleString()} ERC-4337 user operations`);
+  }
+  return [...byHash.values()];
+}
+
+/**
+ * Fetch historical native token prices covering every transaction timestamp in a few range requests
+ */
+async function fetchHistoricalPrices(
+  provider: PriceProvider,
+  symbol: string,
+  transactions: Transaction[],
+  options: LoadPriceTableOptions
+): Promise<PriceTable> {
+  const timestamps = transactions.map((tx) => tx.blockTimestamp).filter((timestamp) => timestamp !== undefined);
+  if (timestamps.length === 0) {
+    return new PriceTable();
+  }
+
+  let startTime = timestamps[0];
+  let endTime = timestamps[0];
+  for (const timestamp of timestamps) {
+    startTime = Math.min(startTime, timestamp);
+    endTime = Math.max(endTime, timestamp);
+  }
+
+  const query = { symbol, currency: PRICE_CURRENCY, startTime, endTime };
+  return loadPriceTable(provider, query, options);
+}
+
+/**
+ * L1 data cost of a rollup transaction in wei. OP-stack charges it on top of L2 execution gas;
+ * Arbitrum folds it into gasUsed as gasUsedForL1, priced at the L2 gas price.
+ */
+function l1DataFeeWei(tx: Transaction, gasPrice: bigint): bigint {
+  if (tx.l1Fee) {
+    return BigInt(tx.l1Fee);
+  }
+  if (tx.gasUsedForL1) {
+    return BigInt(tx.gasUsedForL1) * gasPrice;
+  }
+  return 0n;
+}
+
+/**
+ * Split the execution fee into the burned base fee and the priority tip.
+ * Returns undefined when the block base fee is unknown or predates EIP-1559.
+ */
+function splitExecutionFee(
+  gasUsed: bigint,
+  gasPrice: bigint,
+  baseFeePerGas: string | null | undefined
+): { baseFeeWei: bigint; priorityFeeWei: bigint } | undefined {
+  if (baseFeePerGas === undefined || baseFeePerGas === null) {
+    return undefined;
+  }
+  // A price below the base fee cannot be included, so this only guards against inconsistent data
+  const baseFee = BigInt(baseFeePerGas) < gasPrice ? BigInt(baseFeePerGas) : gasPrice;
+  return { baseFeeWei: gasUsed * baseFee, priorityFeeWei: gasUsed * (gasPrice - baseFee) };
+}
+
+/**
+ * Wei tipped above the block's median priority fee; undefined without the block's fee history
+ */
+function overpaidVsMedian(
+  gasUsed: bigint,
+  gasPrice: bigint,
+  baseFeePerGas: string | null | undefined,
+  rewardPercentiles: string[] | undefined
+): bigint | undefined {
+  if (!baseFeePerGas || !rewardPercentiles) {
+    return undefined;
+  }
+  const tip = gasPrice - BigInt(baseFeePerGas);
+  const median = BigInt(rewardPercentiles[MEDIAN_REWARD_INDEX]);
+  return tip > median ? (tip - median) * gasUsed : 0n;
+}
+
+/**
+ * Derive summary statistics from the priced transactions
+ */
+function computeStatistics(txCosts: TxCost[], network: NetworkInfo): AnalysisStatistics {
+  const costs = txCosts.map((tx) => tx.costUSD);
+  const mostExpensive = costs.length > 0 ? Math.max(...costs) : 0;
+  const totalUSD = costs.reduce((a, b) => a + b, 0);
+  const avgCost = costs.length > 0 ? totalUSD / costs.length : 0;
+
+  const timestamps = txCosts.map((tx) => tx.timestamp);
+  const oldestTimestamp = timestamps.length > 0 ? Math.min(...timestamps) : 0;
+  const newestTimestamp = timestamps.length > 0 ? Math.max(...timestamps) : 0;
+  const timeRange = timestamps.length > 0 ?
+    Math.ceil((newestTimestamp - oldestTimestamp) / (1000 * 60 * 60 * 24)) : 0;
+
+  const statistics: AnalysisStatistics = {
+    totalTransactions: txCosts.length,
+    mostExpensive: mostExpensive,
+    averageCost: avgCost,
+    timeRange: timeRange,
+    oldestTransaction: oldestTimestamp,
+    newestTransaction: newestTimestamp,
+  };
+
+  if (network.rollup) {
+    const l1CostETH = txCosts.reduce((sum, tx) => sum + tx.l1FeeETH, 0);
+    const l1CostUSD = txCosts.reduce((sum, tx) => sum + tx.l1FeeUSD, 0);
+    const totalETH = txCosts.reduce((sum, tx) => sum + tx.costETH, 0);
+    statistics.l1DataFee = { costETH: l1CostETH, costUSD: l1CostUSD, share: totalUSD > 0 ? l1CostUSD / totalUSD : 0 };
+    statistics.l2ExecutionFee = { costETH: totalETH - l1CostETH, costUSD: totalUSD - l1CostUSD };
+  }
+
+  const blobTransactions = txCosts.filter((tx) => tx.blobFeeETH > 0);
+  if (blobTransactions.length > 0) {
+    const blobCostUSD = blobTransactions.reduce((sum, tx) => sum + tx.blobFeeUSD, 0);
+    statistics.blobFee = {
+      transactions: blobTransactions.length,
+      costETH: blobTransactions.reduce((sum, tx) => sum + tx.blobFeeETH, 0),
+      costUSD: blobCostUSD,
+      share: totalUSD > 0 ? blobCostUSD / totalUSD : 0,
+    };
+  }
+
+  const withStatus = txCosts.filter((tx) => tx.failed !== undefined);
+  if (withStatus.length > 0) {
+    const failed = withStatus.filter((tx) => tx.failed);
+    statistics.failures = {
+      transactions: withStatus.length,
+      failed: failed.length,
+      rate: failed.length / withStatus.length,
+      wastedETH: failed.reduce((sum, tx) => sum + tx.costETH, 0),
+      wastedUSD: failed.reduce((sum, tx) => sum + tx.costUSD, 0),
+      costliest: [...failed].sort((a, b) => b.costUSD - a.costUSD).slice(0, MAX_COSTLIEST_FAILURES),
+    };
+  }
+
+  const withFeeHistory = txCosts.filter((tx) => tx.overpaidETH !== undefined);
+  if (withFeeHistory.length > 0) {
+    statistics.overpayment = {
+      transactions: withFeeHistory.length,
+      overpaidTransactions: withFeeHistory.filter((tx) => tx.overpaidETH > 0).length,
+      overpaidETH: withFeeHistory.reduce((sum, tx) => sum + tx.overpaidETH, 0),
+      overpaidUSD: withFeeHistory.reduce((sum, tx) => sum + tx.overpaidUSD, 0),
+    };
+  }
+
+  const split = txCosts.filter((tx) => tx.baseFeeETH !== undefined);
+  if (split.length > 0) {
+    const baseFeeUSD = split.reduce((sum, tx) => sum + tx.baseFeeUSD, 0);
+    const priorityFeeUSD = split.reduce((sum, tx) => sum + tx.priorityFeeUSD, 0);
+    statistics.feeSplit = {
+      transactions: split.length,
+      baseFeeETH: split.reduce((sum, tx) => sum + tx.baseFeeETH, 0),
+      baseFeeUSD,
+      priorityFeeETH: split.reduce((sum, tx) => sum + tx.priorityFeeETH, 0),
+      priorityFeeUSD,
+      tipShare: baseFeeUSD + priorityFeeUSD > 0 ? priorityFeeUSD / (baseFeeUSD + priorityFeeUSD) : 0,
+    };
+  }
+  return statistics;
+}
+
+/**
+ * Self-paid versus sponsored totals of the priced user operations; undefined when there are none
+ */
+function summarizeUserOperations(costs: TxCost[]): AnalysisStatistics["userOperations"] {
+  if (costs.length === 0) {
+    return undefined;
+  }
+  const totals = (group: TxCost[]) => ({
+    count: group.length,
+    costETH: group.reduce((sum, tx) => sum + tx.costETH, 0),
+    costUSD: group.reduce((sum, tx) => sum + tx.costUSD, 0),
+  });
+  return {
+    count: costs.length,
+    selfPaid: totals(costs.filter((tx) => tx.outgoing)),
+    sponsored: totals(costs.filter((tx) => !tx.outgoing)),
+  };
+}
+
+/**
+ * Group costs by called function, most expensive first
+ */
+function computeMethodBreakdown(txCosts: TxCost[], nativeSymbol: string): MethodSpend[] {
+  const groups = new Map<string, MethodSpend>();
+  for (const tx of txCosts) {
+    let label: string;
+    if (tx.userOperation) {
+      label = "User operation";
+    } else if (tx.method) {
+      label = methodName(tx.method);
+    } else if (tx.methodSelector === "0x") {
+      label = `${nativeSymbol} transfer`;
+    } else {
+      label = tx.methodSelector ?? "Unknown";
+    }
+    // Overloads share a name but not a selector, so they are grouped separately
+    const key = tx.userOperation ? label : (tx.methodSelector ?? label);
+    const group = groups.get(key) ?? {
+      label,
+      selector: tx.userOperation ? undefined : tx.methodSelector,
+      signature: tx.userOperation ? undefined : tx.method,
+      transactions: 0,
+      costETH: 0,
+      costUSD: 0,
+    };
+    group.transactions++;
+    group.costETH += tx.costETH;
+    group.costUSD += tx.costUSD;
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort((a, b) => b.costUSD - a.costUSD);
+}
+
+/**
+ * Group costs by the protocol behind their "to" address, most expensive first
+ */
+function computeProtocolBreakdown(txCosts: TxCost[], labels: LabelRegistry, network: string): ProtocolSpend[] {
+  const groups = new Map<string, ProtocolSpend>();
+  for (const tx of txCosts) {
+    const address = tx.to?.toLowerCase();
+    const label = labels.get(address, network);
+    const key = label ? `label:${label.name}` : (address ?? "creation");
+    const group = groups.get(key) ?? {
+      label: label?.name ?? tx.to ?? "Contract creation",
+      category: label?.category,
+      addresses: [],
+      labeled: !!label,
+      transactions: 0,
+      costETH: 0,
+      costUSD: 0,
+    };
+    if (address && !group.addresses.includes(address)) {
+      group.addresses.push(address);
+    }
+    group.transactions++;
+    group.costETH += tx.costETH;
+    group.costUSD += tx.costUSD;
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort((a, b) => b.costUSD - a.costUSD);
+}
+
+/**
+ * Main calculation function. On cancellation the transactions and prices gathered so far
+ * (prices from the cache only, if history fetching was interrupted) still produce a result,
+ * which is attached to the AnalysisCancelledError.
+ */
+async function calculateTotalGasCost(
+  addresses: string[],
+  options: AnalysisOptions,
+  progress: ProgressTracker
+): Promise<AnalysisResult> {
+  const {
+    historyProvider,
+    historyCache,
+    priceProvider,
+    priceCache,
+    network = DEFAULT_NETWORK,
+    attribution = "sender",
+    rpcUrl,
+    sampleLaterBaseFees = false,
+    signatures = new SignatureDatabase(),
+    labels = new LabelRegistry(),
+    signal,
+  } = options;
+  const networkInfo = getNetwork(network);
+  const { nativeSymbol } = networkInfo;
+  const scheduler = new RequestScheduler(
+    {
+      ...options.requestOptions,
+      // Only the first retry of each request is logged, so a burst of rate limiting does not flood the log
+      onRetry: ({ label, attempt, status, delayMs }) => {
+        if (attempt === 1) {
+          progress.log(`${label} failed${status ? ` (${status})` : ""}, retrying in ${Math.round(delayMs / 1000)}s`);
+        }
+      },
+    },
+    signal
+  );
+  const diagnostics = new Diagnostics();
+
+  progress.setPhase("history", `Fetching transaction history from ${historyProvider.name}...`);
+  const { transactions, historyOwner, internalTransactions } = await loadPortfolioHistory(addresses, async (address) => {
+    const { transactions } = await syncTransactionHistory(historyProvider, address, network, {
+      cache: historyCache,
+      scheduler,
+      signal,
+      diagnostics,
+      onPage: (page) => progress.pageFetched(page.length),
+      onLog: (message) => progress.log(addresses.length > 1 ? `${address}: ${message}` : message),
+      enrich: rpcUrl
+        ? async (transactions) => {
+            const enrichOptions = { scheduler, signal, diagnostics, onLog: (message: string) => progress.log(message) };
+            // Receipts carry the fee components no history provider reports: rollup L1 fees and blob gas
+            const withReceipts = await enrichWithReceipts(rpcUrl, transactions, enrichOptions);
+            const withBaseFees = await enrichWithBaseFees(rpcUrl, withReceipts, enrichOptions);
+            const withFeeHistory = await enrichWithFeeHistory(rpcUrl, withBaseFees, enrichOptions);
+            if (!sampleLaterBaseFees) {
+              return withFeeHistory;
+            }
+            // Base fees of the following hours feed the what-if delay simulation
+            return enrichWithLaterBaseFees(rpcUrl, withFeeHistory, {
+              ...enrichOptions,
+              blockTimeMs: networkInfo.blockTimeMs,
+              senders: [address],
+            });
+          }
+        : undefined,
+    });
+    return transactions;
+  });
+  if (internalTransactions > 0) {
+    progress.log(`Counted ${internalTransactions} transactions between the analyzed addresses once`);
+  }
+  const userOperations =
+    rpcUrl && !signal?.aborted
+      ? await loadUserOperations(rpcUrl, addresses, {
+          network: networkInfo,
+          cache: historyCache,
+          provider: historyProvider.name,
+          scheduler,
+          signal,
+          diagnostics,
+          progress,
+        })
+      : [];
+  // Bundle transactions whose fee is attributed per user operation instead
+  const bundleHashes = new Set(userOperations.map((operation) => operation.transactionHash.toLowerCase()));
+
+  if (transactions.length === 0 && userOperations.length === 0) {
+    if (signal?.aborted) {
+      throw new AnalysisCancelledError(null);
+    }
+    throw new Error("No transactions found for this address");
+  }
+
+  let totalGasCostWei = 0n;
+  let totalGasCostETH = 0.0;
+  let totalGasCostUSD = 0.0;
+  const txCosts: TxCost[] = [];
+  const inboundCosts: TxCost[] = [];
+  let inboundCostETH = 0.0;
+  let inboundCostUSD = 0.0;
+  // Lowercased address to the address as given, which is what results report
+  const owned = new Map(addresses.map((address) => [address.toLowerCase(), address]));
+  const breakdown = new Map<string, { transactions: number; wei: bigint; eth: number; usd: number }>(
+    addresses.map((address) => [address, { transactions: 0, wei: 0n, eth: 0, usd: 0 }])
+  );
+  let lastValidPrice: number | null = null;
+  let processedCount = 0;
+
+  progress.setPhase("prices", `Fetching historical prices from ${priceProvider.name}...`);
+  const pricedTransactions = transactions.concat(
+    userOperations.map((operation) => ({ hash: operation.transactionHash, blockTimestamp: operation.timestamp }))
+  );
+  // Fees are priced in the token they were paid in at the time
+  const bySymbol = new Map<string, Transaction[]>();
+  for (const tx of pricedTransactions) {
+    const symbol = tx.blockTimestamp === undefined ? nativeSymbol : nativeSymbolAt(networkInfo, tx.blockTimestamp);
+    const group = bySymbol.get(symbol);
+    if (group) {
+      group.push(tx);
+    } else {
+      bySymbol.set(symbol, [tx]);
+    }
+  }
+  const priceTables = new Map<string, PriceTable>();
+  for (const [symbol, symbolTransactions] of bySymbol) {
+    const table = await fetchHistoricalPrices(priceProvider, symbol, symbolTransactions, {
+      cache: priceCache,
+      scheduler,
+      signal,
+      diagnostics,
+      onWindowLoaded: (loaded, total, pricesResolved) => progress.priceWindows(loaded, total, pricesResolved),
+    });
+    priceTables.set(symbol, table);
+    progress.log(`Resolved ${table.size.toLocaleString()} hourly ${symbol} prices`);
+  }
+
+  /** Price at the given time, falling back to the last known price; null when there is none yet */
+  const priceAt = (timestamp: number, subject: string): number | null => {
+    const price = priceTables.get(nativeSymbolAt(networkInfo, timestamp))?.lookup(timestamp) ?? null;
+    if (price !== null) {
+      lastValidPrice = price;
+      return price;
+    }
+    if (lastValidPrice !== null) {
+      diagnostics.add({
+        kind: "price-fallback",
+        source: "Engine",
+        message: "No price near the transaction time; used the last known price",
+        subject,
+      });
+    }
+    return lastValidPrice;
+  };
+
+  /** Add a priced cost to the totals, or to the excluded inbound costs when someone else paid it */
+  const record = (txCost: TxCost, costWei: bigint) => {
+    if (!txCost.outgoing && attribution === "sender") {
+      inboundCostETH += txCost.costETH;
+      inboundCostUSD += txCost.costUSD;
+      inboundCosts.push(txCost);
+      return;
+    }
+
+    totalGasCostWei += costWei;
+    totalGasCostETH += txCost.costETH;
+    totalGasCostUSD += txCost.costUSD;
+    txCosts.push(txCost);
+
+    const ownerTotals = breakdown.get(txCost.address);
+    ownerTotals.transactions++;
+    ownerTotals.wei += costWei;
+    ownerTotals.eth += txCost.costETH;
+    ownerTotals.usd += txCost.costUSD;
+  };
+
+  progress.setPhase("processing", `Processing ${transactions.length.toLocaleString()} transactions...`);
+
+  for (const tx of transactions) {
+    processedCount++;
+    if (processedCount % PROCESSING_PROGRESS_INTERVAL === 0 || processedCount === transactions.length) {
+      progress.processed(processedCount, transactions.length);
+    }
+    const skip = (message: string) =>
+      diagnostics.add({ kind: "skipped-transaction", source: "Engine", message, subject: tx.hash });
+    if (!tx.from && attribution === "sender") {
+      skip("Missing from address, so the fee payer is unknown");
+      continue;
+    }
+    const sender = owned.get(tx.from?.toLowerCase());
+    const outgoing = sender !== undefined;
+    if (!outgoing && isEntryPoint(tx.to) && bundleHashes.has(tx.hash.toLowerCase())) {
+      // Someone else's handleOps bundle: only the user operations below were paid for by the analyzed accounts
+      continue;
+    }
+    // Fees are attributed to the paying address; inbound transactions to the address that received them
+    const owner = sender ?? historyOwner.get(tx.hash.toLowerCase());
+    const gasUsedValue = tx.gasUsed || tx.gas;
+    if (!gasUsedValue) {
+      skip("Missing gasUsed and gas");
+      continue;
+    }
+    const gasPriceValue = tx.effectiveGasPrice || tx.gasPrice;
+    if (!gasPriceValue) {
+      skip("Missing effectiveGasPrice and gasPrice");
+      continue;
+    }
+    if (networkInfo.rollup && !tx.hasReceipt) {
+      diagnostics.add({
+        kind: "missing-receipt",
+        source: "Engine",
+        message:
+          networkInfo.rollup === "op-stack"
+            ? "No receipt available, so the L1 data fee is not included"
+            : "No receipt available, so the L1 data fee cannot be separated from L2 execution",
+        subject: tx.hash,
+      });
+    }
+    try {
+      const gasUsedBig = BigInt(gasUsedValue);
+      const gasPriceBig = BigInt(gasPriceValue);
+      const l1FeeWei = l1DataFeeWei(tx, gasPriceBig);
+      const blobFeeWei = tx.blobGasUsed && tx.blobGasPrice ? BigInt(tx.blobGasUsed) * BigInt(tx.blobGasPrice) : 0n;
+      // Only the OP-stack fee is outside gasUsed; Arbitrum's is a share of it
+      const txCostWei = gasUsedBig * gasPriceBig + (tx.l1Fee ? l1FeeWei : 0n) + blobFeeWei;
+
+      const txCostETH = weiToNative(txCostWei);
+      const l1FeeETH = weiToNative(l1FeeWei);
+      const blobFeeETH = weiToNative(blobFeeWei);
+
+      if (!tx.blockTimestamp) {
+        skip("Missing blockTimestamp, so no historical price can be looked up");
+        continue;
+      }
+
+      const histPriceUSD = priceAt(tx.blockTimestamp, tx.hash);
+      if (histPriceUSD === null) {
+        skip("No historical price available");
+        continue;
+      }
+
+      const txCostUSD = txCostETH * histPriceUSD;
+      const split = splitExecutionFee(gasUsedBig, gasPriceBig, tx.baseFeePerGas);
+      const overpaidWei = overpaidVsMedian(gasUsedBig, gasPriceBig, tx.baseFeePerGas, tx.rewardPercentiles);
+      const txCost: TxCost = {
+        hash: tx.hash,
+        timestamp: tx.blockTimestamp,
+        address: owner,
+        to: tx.to,
+        outgoing,
+        failed: tx.failed,
+        costETH: txCostETH,
+        costUSD: txCostUSD,
+        l1FeeETH,
+        l1FeeUSD: l1FeeETH * histPriceUSD,
+        blobFeeETH,
+        blobFeeUSD: blobFeeETH * histPriceUSD,
+        ...(split && {
+          baseFeeETH: weiToNative(split.baseFeeWei),
+          baseFeeUSD: weiToNative(split.baseFeeWei) * histPriceUSD,
+          priorityFeeETH: weiToNative(split.priorityFeeWei),
+          priorityFeeUSD: weiToNative(split.priorityFeeWei) * histPriceUSD,
+          baseFeePerGas: tx.baseFeePerGas,
+          laterBaseFees: tx.laterBaseFees,
+        }),
+        ...(overpaidWei !== undefined && {
+          rewardPercentiles: tx.rewardPercentiles,
+          overpaidETH: weiToNative(overpaidWei),
+          overpaidUSD: weiToNative(overpaidWei) * histPriceUSD,
+        }),
+        gasUsed: gasUsedValue,
+        gasUsedForL1: tx.gasUsedForL1,
+        gasPrice: gasPriceValue,
+        methodSelector: tx.methodSelector,
+        method: tx.methodSelector && tx.methodSelector !== "0x" ? signatures.lookup(tx.methodSelector) : undefined,
+        ethPrice: histPriceUSD,
+      };
+
+      record(txCost, txCostWei);
+    } catch (error) {
+      skip(`Could not be processed: ${error.message}`);
+    }
+  }
+
+  // The EntryPoint charges each user operation's actualGasCost to the account, or to its paymaster
+  const userOperationCosts: TxCost[] = [];
+  for (const operation of userOperations) {
+    const subject = operation.userOpHash;
+    if (operation.timestamp === undefined) {
+      diagnostics.add({ kind: "skipped-transaction", source: "Engine", message: "Missing block timestamp", subject });
+      continue;
+    }
+    const histPriceUSD = priceAt(operation.timestamp, subject);
+    if (histPriceUSD === null) {
+      diagnostics.add({ kind: "skipped-transaction", source: "Engine", message: "No historical price available", subject });
+      continue;
+    }
+    const costWei = BigInt(operation.actualGasCost);
+    const costETH = weiToNative(costWei);
+    const gasUsed = BigInt(operation.actualGasUsed);
+    const txCost: TxCost = {
+      hash: operation.transactionHash,
+      timestamp: operation.timestamp,
+      address: owned.get(operation.sender.toLowerCase()),
+      to: operation.entryPoint,
+      // A sponsored operation was paid for by the paymaster, like an inbound transaction
+      outgoing: operation.paymaster === undefined,
+      failed: !operation.success,
+      costETH,
+      costUSD: costETH * histPriceUSD,
+      l1FeeETH: 0,
+      l1FeeUSD: 0,
+      blobFeeETH: 0,
+      blobFeeUSD: 0,
+      gasUsed: operation.actualGasUsed,
+      gasPrice: (gasUsed > 0n ? costWei / gasUsed : 0n).toString(),
+      ethPrice: histPriceUSD,
+      userOperation: { hash: operation.userOpHash, paymaster: operation.paymaster },
+    };
+    userOperationCosts.push(txCost);
+    record(txCost, costWei);
+  }
+
+  progress.log("Finalizing calculations...");
+
+  const result: AnalysisResult = {
+    success: true,
+    partial: !!signal?.aborted,
+    addresses,
+    network,
+    nativeSymbol,
+    attribution,
+    totalGasCostWei: totalGasCostWei.toString(),
+    totalGasCostETH: totalGasCostETH.toString(),
+    totalGasCostUSD: totalGasCostUSD.toFixed(2),
+    transactionCosts: txCosts.sort((a, b) => b.timestamp - a.timestamp), // Sort by newest first
+    statistics: {
+      ...computeStatistics(txCosts, networkInfo),
+      userOperations: summarizeUserOperations(userOperationCosts),
+    },
+    breakdown: [...breakdown].map(
+      ([address, totals]): AddressBreakdown => ({
+        address,
+        transactions: totals.transactions,
+        totalGasCostWei: totals.wei.toString(),
+        totalGasCostETH: totals.eth.toString(),
+        totalGasCostUSD: totals.usd.toFixed(2),
+      })
+    ),
+    methodBreakdown: computeMethodBreakdown(txCosts, nativeSymbol),
+    protocolBreakdown: computeProtocolBreakdown(txCosts, labels, network),
+    internalTransactions,
+    excludedInbound: {
+      count: inboundCosts.length,
+      totalGasCostETH: inboundCostETH.toString(),
+      totalGasCostUSD: inboundCostUSD.toFixed(2),
+      transactionCosts: inboundCosts.sort((a, b) => b.timestamp - a.timestamp),
+    },
+    requestStats: scheduler.stats(),
+    diagnostics: diagnostics.list(),
+    diagnosticCount: diagnostics.count,
+  };
+
+  if (signal?.aborted) {
+    throw new AnalysisCancelledError(result);
+  }
+  return result;
+}
+
+/**
+ * Complete Gas Cost Calculator Function
+ * Calculates total gas costs for one Ethereum address, or combined for a portfolio of addresses,
+ * with historical USD pricing
+ *
+ * @param address - Ethereum wallet address, or a list of addresses analyzed together
+ * @param options - History and price providers, network and optional progress callback
+ * @returns Gas cost analysis results
+ */
+export async function calculateGasCosts(address: string | string[], options: AnalysisOptions): Promise<AnalysisResult> {
+  // Validate inputs
+  const list = Array.isArray(address) ? address : [address];
+  if (list.length === 0 || list.some((entry) => !entry || typeof entry !== "string")) {
+    throw new Error("Valid Ethereum address is required");
+  }
+  // The same wallet listed twice would double its history
+  const addresses = list.filter(
+    (entry, index) => list.findIndex((other) => other.toLowerCase() === entry.toLowerCase()) === index
+  );
+
+  if (!options.historyProvider) {
+    throw new Error("A transaction history provider is required");
+  }
+
+  if (!options.priceProvider) {
+    throw new Error("A price provider is required");
+  }
+
+  const progress = new ProgressTracker(options.onProgress);
+  progress.log("Starting gas cost analysis...");
+  try {
+    const result = await calculateTotalGasCost(addresses, options, progress);
+    progress.setPhase("done", "✅ Analysis complete!");
+    return result;
+  } catch (error) {
+    if (error instanceof AnalysisCancelledError) {
+      progress.setPhase("cancelled", "⏹ Analysis cancelled");
+    } else {
+      progress.setPhase("error", `❌ Error: ${error.message}`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,61 @@
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, concatBytes, utf8ToBytes } from "@noble/hashes/utils";
+import { toChecksumAddress } from "./address";
+import { parseResponse } from "./diagnostics";
+import { rpcRequest } from "./rpc";
+import { hexDataSchema } from "./schemas";
+
+/** ENS registry, deployed at the same address on mainnet and the testnets */
+const ENS_REGISTRY = "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e";
+/** resolver(bytes32) on the registry */
+const RESOLVER_SELECTOR = "0x0178b8bf";
+/** addr(bytes32) on the resolver */
+const ADDR_SELECTOR = "0x3b3b57de";
+
+const ZERO_ADDRESS = `0x${"0".repeat(40)}`;
+
+/**
+ * ENS namehash of a name. Labels are only lowercased, not fully UTS-46 normalized,
+ * which covers plain ASCII names.
+ */
+export function namehash(name: string): string {
+  let node = new Uint8Array(32);
+  if (name) {
+    const labels = name.toLowerCase().split(".");
+    for (let i = labels.length - 1; i >= 0; i--) {
+      node = keccak_256(concatBytes(node, keccak_256(utf8ToBytes(labels[i]))));
+    }
+  }
+  return `0x${bytesToHex(node)}`;
+}
+
+/**
+ * eth_call result holding an ABI-encoded address, decoded to its lowercase hex form. Empty return data,
+ * as from an address without code, decodes to the zero address.
+ */
+const addressResultSchema = hexDataSchema
+  .refine((hex) => hex === "0x" || /^0x0{24}[0-9a-fA-F]{40}/.test(hex), "Expected an ABI-encoded address")
+  .transform((hex) => (hex === "0x" ? ZERO_ADDRESS : `0x${hex.slice(26, 66).toLowerCase()}`));
+
+/**
+ * Resolve an ENS name to a checksummed address through the registry and the name's resolver.
+ * Returns null when the name has no resolver or no address record. Wildcard (ENSIP-10)
+ * and offchain (CCIP-read) resolvers are not supported.
+ */
+export async function resolveEnsName(rpcUrl: string, name: string, signal?: AbortSignal): Promise<string | null> {
+  const node = namehash(name).slice(2);
+  const call = async (to: string, selector: string, source: string) =>
+    parseResponse(
+      addressResultSchema,
+      await rpcRequest<unknown>(rpcUrl, "eth_call", [{ to, data: `${selector}${node}` }, "latest"], signal),
+      source
+    );
+
+  const resolver = await call(ENS_REGISTRY, RESOLVER_SELECTOR, "ENS registry");
+  if (resolver === ZERO_ADDRESS) {
+    return null;
+  }
+
+  const address = await call(resolver, ADDR_SELECTOR, "ENS resolver");
+  return address === ZERO_ADDRESS ? null : toChecksumAddress(address);
+}
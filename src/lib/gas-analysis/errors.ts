@@ -0,0 +1,40 @@
+import type { AnalysisResult } from "./types";
+
+/**
+ * Thrown when an analysis is aborted through its AbortSignal.
+ * Carries the result computed from the data gathered before cancellation, if any.
+ */
+export class AnalysisCancelledError extends Error {
+  constructor(readonly partialResult: AnalysisResult | null) {
+    super("Analysis cancelled");
+    this.name = "AnalysisCancelledError";
+  }
+}
+
+/**
+ * Thrown when a provider response does not have the expected shape. Not retried by the scheduler.
+ */
+export class ResponseValidationError extends Error {
+  constructor(
+    readonly source: string,
+    readonly details: string
+  ) {
+    super(`Unexpected ${source} response: ${details}`);
+    this.name = "ResponseValidationError";
+  }
+}
+
+/**
+ * Error object returned by a JSON-RPC server for a request it received and rejected, such as a too-large
+ * log range. Not retried by the scheduler.
+ */
+export class JsonRpcError extends Error {
+  constructor(
+    readonly method: string,
+    readonly code: number,
+    details: string
+  ) {
+    super(`${method} failed: ${details}`);
+    this.name = "JsonRpcError";
+  }
+}
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { parseRows, type Diagnostics } from "./diagnostics";
+import { rpcBatch } from "./rpc";
+import { scheduled, type RequestScheduler } from "./scheduler";
+import { quantitySchema } from "./schemas";
+import type { Transaction } from "./types";
+
+/** Priority fee percentiles requested for every block, in the order they are stored */
+export const REWARD_PERCENTILES = [10, 50, 90];
+
+/** Position of the median in stored reward percentiles */
+export const MEDIAN_REWARD_INDEX = REWARD_PERCENTILES.indexOf(50);
+
+/** Blocks requested per JSON-RPC batch */
+const BLOCK_BATCH_SIZE = 50;
+
+const feeHistorySchema = z.object({
+  oldestBlock: quantitySchema,
+  // One row per block, one entry per requested percentile
+  reward: z.array(z.array(quantitySchema).length(REWARD_PERCENTILES.length)).length(1),
+});
+
+/**
+ * Fetch the priority fee percentiles (REWARD_PERCENTILES, wei per gas) paid in each block, using
+ * one single-block eth_feeHistory call per block in a JSON-RPC batch. Keyed by decimal block number;
+ * failed and malformed responses are left out.
+ */
+export async function fetchRewardPercentiles(
+  rpcUrl: string,
+  blockNumbers: string[],
+  options: { signal?: AbortSignal; diagnostics?: Diagnostics } = {}
+): Promise<Map<string, string[]>> {
+  const raw = await rpcBatch<unknown>(
+    rpcUrl,
+    blockNumbers.map((n) => ({
+      method: "eth_feeHistory",
+      params: ["0x1", `0x${BigInt(n).toString(16)}`, REWARD_PERCENTILES],
+    })),
+    options.signal,
+    options.diagnostics
+  );
+  const histories = parseRows(
+    feeHistorySchema.nullable(),
+    raw,
+    "JSON-RPC fee history",
+    options.diagnostics,
+    (_history, index) => `block ${blockNumbers[index]}`
+  ).filter((history) => history !== null);
+  return new Map(histories.map((history) => [history.oldestBlock, history.reward[0]]));
+}
+
+export interface EnrichFeeHistoryOptions {
+  scheduler?: RequestScheduler;
+  signal?: AbortSignal;
+  diagnostics?: Diagnostics;
+  onLog?: (message: string) => void;
+}
+
+/**
+ * Fill in the block priority fee percentiles of post-EIP-1559 transactions that do not have them yet.
+ * Runs after enrichWithBaseFees, whose null base fees mark the blocks fee history cannot cover.
+ * Failed batches are recorded as diagnostics and their transactions left as they were.
+ */
+export async function enrichWithFeeHistory(
+  rpcUrl: string,
+  transactions: Transaction[],
+  options: EnrichFeeHistoryOptions = {}
+): Promise<Transaction[]> {
+  const { scheduler, signal, diagnostics, onLog } = options;
+  const blockNumbers = [
+    ...new Set(
+      transactions
+        .filter((tx) => tx.rewardPercentiles === undefined && typeof tx.baseFeePerGas === "string")
+        .map((tx) => tx.blockNumber)
+        .filter((blockNumber) => blockNumber !== undefined)
+    ),
+  ];
+  if (blockNumbers.length === 0) {
+    return transactions;
+  }
+
+  onLog?.(`Fetching fee history for ${blockNumbers.length.toLocaleString()} blocks...`);
+  const rewards = new Map<string, string[]>();
+  const batches: string[][] = [];
+  for (let i = 0; i < blockNumbers.length; i += BLOCK_BATCH_SIZE) {
+    batches.push(blockNumbers.slice(i, i + BLOCK_BATCH_SIZE));
+  }
+
+  await Promise.all(
+    batches.map(async (numbers, index) => {
+      const label = `Fee history batch ${index + 1}/${batches.length}`;
+      try {
+        const batch = await scheduled(scheduler, label, () =>
+          fetchRewardPercentiles(rpcUrl, numbers, { signal, diagnostics })
+        );
+        for (const [number, reward] of batch) {
+          rewards.set(number, reward);
+        }
+      } catch (error) {
+        if (!signal?.aborted) {
+          diagnostics?.add({
+            kind: "failed-request",
+            source: "JSON-RPC fee history",
+            message: `${error.message}; these transactions lack priority fee percentiles`,
+            subject: label,
+          });
+        }
+      }
+    })
+  );
+  signal?.throwIfAborted();
+
+  return transactions.map((tx) =>
+    tx.rewardPercentiles === undefined && rewards.has(tx.blockNumber)
+      ? { ...tx, rewardPercentiles: rewards.get(tx.blockNumber) }
+      : tx
+  );
+}
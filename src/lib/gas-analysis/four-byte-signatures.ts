@@ -0,0 +1,132 @@
+/**
+ * Bundled 4-byte selector dataset: selectors of widely used contract functions mapped to their
+ * canonical signatures, so transactions can be labeled without querying an online signature directory.
+ * Selectors are the first four bytes of keccak256(signature).
+ */
+export const FOUR_BYTE_SIGNATURES: Record<string, string> = {
+  // ERC-20
+  "0xa9059cbb": "transfer(address,uint256)",
+  "0x095ea7b3": "approve(address,uint256)",
+  "0x23b872dd": "transferFrom(address,address,uint256)",
+  "0x39509351": "increaseAllowance(address,uint256)",
+  "0xa457c2d7": "decreaseAllowance(address,uint256)",
+  "0xd505accf": "permit(address,address,uint256,uint256,uint8,bytes32,bytes32)",
+  "0x42966c68": "burn(uint256)",
+  // Wrapped native tokens
+  "0xd0e30db0": "deposit()",
+  "0x2e1a7d4d": "withdraw(uint256)",
+  // ERC-721 and ERC-1155
+  "0x42842e0e": "safeTransferFrom(address,address,uint256)",
+  "0xb88d4fde": "safeTransferFrom(address,address,uint256,bytes)",
+  "0xa22cb465": "setApprovalForAll(address,bool)",
+  "0xf242432a": "safeTransferFrom(address,address,uint256,uint256,bytes)",
+  "0x2eb2c2d6": "safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)",
+  "0x1249c58b": "mint()",
+  "0xa0712d68": "mint(uint256)",
+  "0x40c10f19": "mint(address,uint256)",
+  "0x2db11544": "publicMint(uint256)",
+  "0x4e71d92d": "claim()",
+  "0x2e7ba6ef": "claim(uint256,address,uint256,bytes32[])",
+  // Uniswap V2 router
+  "0x7ff36ab5": "swapExactETHForTokens(uint256,address[],address,uint256)",
+  "0x18cbafe5": "swapExactTokensForETH(uint256,uint256,address[],address,uint256)",
+  "0x38ed1739": "swapExactTokensForTokens(uint256,uint256,address[],address,uint256)",
+  "0x8803dbee": "swapTokensForExactTokens(uint256,uint256,address[],address,uint256)",
+  "0xfb3bdb41": "swapETHForExactTokens(uint256,address[],address,uint256)",
+  "0x4a25d94a": "swapTokensForExactETH(uint256,uint256,address[],address,uint256)",
+  "0xb6f9de95": "swapExactETHForTokensSupportingFeeOnTransferTokens(uint256,address[],address,uint256)",
+  "0x791ac947": "swapExactTokensForETHSupportingFeeOnTransferTokens(uint256,uint256,address[],address,uint256)",
+  "0x5c11d795": "swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256,uint256,address[],address,uint256)",
+  "0xe8e33700": "addLiquidity(address,address,uint256,uint256,uint256,uint256,address,uint256)",
+  "0xf305d719": "addLiquidityETH(address,uint256,uint256,uint256,address,uint256)",
+  "0xbaa2abde": "removeLiquidity(address,address,uint256,uint256,uint256,address,uint256)",
+  "0x02751cec": "removeLiquidityETH(address,uint256,uint256,uint256,address,uint256)",
+  "0xded9382a": "removeLiquidityETHWithPermit(address,uint256,uint256,uint256,address,uint256,bool,uint8,bytes32,bytes32)",
+  // Uniswap V3 routers and position manager
+  "0x414bf389": "exactInputSingle((address,address,uint24,address,uint256,uint256,uint256,uint160))",
+  "0x04e45aaf": "exactInputSingle((address,address,uint24,address,uint256,uint256,uint160))",
+  "0xc04b8d59": "exactInput((bytes,address,uint256,uint256,uint256))",
+  "0xb858183f": "exactInput((bytes,address,uint256,uint256))",
+  "0xdb3e2198": "exactOutputSingle((address,address,uint24,address,uint256,uint256,uint256,uint160))",
+  "0xf28c0498": "exactOutput((bytes,address,uint256,uint256,uint256))",
+  "0xac9650d8": "multicall(bytes[])",
+  "0x5ae401dc": "multicall(uint256,bytes[])",
+  "0x1f0464d1": "multicall(bytes32,bytes[])",
+  "0x88316456": "mint((address,address,uint24,int24,int24,uint256,uint256,uint256,uint256,address,uint256))",
+  "0x219f5d17": "increaseLiquidity((uint256,uint256,uint256,uint256,uint256,uint256))",
+  "0x0c49ccbe": "decreaseLiquidity((uint256,uint128,uint256,uint256,uint256))",
+  "0xfc6f7865": "collect((uint256,address,uint128,uint128))",
+  // Uniswap Universal Router and Permit2
+  "0x3593564c": "execute(bytes,bytes[],uint256)",
+  "0x24856bc3": "execute(bytes,bytes[])",
+  "0x87517c45": "approve(address,address,uint160,uint48)",
+  // Aggregators
+  "0x12aa3caf": "swap(address,(address,address,address,address,uint256,uint256,uint256),bytes,bytes)",
+  "0x0502b1c5": "unoswap(address,uint256,uint256,uint256[])",
+  "0xe449022e": "uniswapV3Swap(uint256,uint256,uint256[])",
+  "0x415565b0": "transformERC20(address,address,uint256,uint256,(uint32,bytes)[])",
+  // NFT marketplaces
+  "0xfb0f3ee1": "fulfillBasicOrder((address,uint256,uint256,address,address,address,uint256,uint256,uint8,uint256,uint256,bytes32,uint256,bytes32,bytes32,uint256,(uint256,address)[],bytes))",
+  "0x00000000": "fulfillBasicOrder_efficient_6GL6yc((address,uint256,uint256,address,address,address,uint256,uint256,uint8,uint256,uint256,bytes32,uint256,bytes32,bytes32,uint256,(uint256,address)[],bytes))",
+  // ENS
+  "0xf14fcbc8": "commit(bytes32)",
+  "0x74694a2b": "register(string,address,uint256,bytes32,address,bytes[],bool,uint16)",
+  "0xacf1a841": "renew(string,uint256)",
+  "0xc47f0027": "setName(string)",
+  // Lending
+  "0x617ba037": "supply(address,uint256,address,uint16)",
+  "0x69328dec": "withdraw(address,uint256,address)",
+  "0xa415bcad": "borrow(address,uint256,uint256,uint16,address)",
+  "0x573ade81": "repay(address,uint256,uint256,address)",
+  "0x474cf53d": "depositETH(address,address,uint16)",
+  "0xdb006a75": "redeem(uint256)",
+  "0xc5ebeaec": "borrow(uint256)",
+  "0x0e752702": "repayBorrow(uint256)",
+  // Staking and vaults
+  "0xa1903eab": "submit(address)",
+  "0xa694fc3a": "stake(uint256)",
+  "0x2e17de78": "unstake(uint256)",
+  "0x3d18b912": "getReward()",
+  "0xe9fad8ee": "exit()",
+  "0x3ccfd60b": "withdraw()",
+  "0xb6b55f25": "deposit(uint256)",
+  "0x6e553f65": "deposit(uint256,address)",
+  "0xba087652": "redeem(uint256,address,address)",
+  "0xb460af94": "withdraw(uint256,address,address)",
+  // Curve
+  "0x3df02124": "exchange(int128,int128,uint256,uint256)",
+  "0x5b41b908": "exchange(uint256,uint256,uint256,uint256)",
+  "0x0b4c7e4d": "add_liquidity(uint256[2],uint256)",
+  "0x4515cef3": "add_liquidity(uint256[3],uint256)",
+  "0x1a4d01d2": "remove_liquidity_one_coin(uint256,int128,uint256)",
+  // Safe
+  "0x6a761202": "execTransaction(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,bytes)",
+  "0x1688f0b9": "createProxyWithNonce(address,bytes,uint256)",
+  // ERC-4337 EntryPoint
+  "0x1fad948c": "handleOps((address,uint256,bytes,bytes,uint256,uint256,uint256,uint256,uint256,bytes,bytes)[],address)",
+  "0x765e827f": "handleOps((address,uint256,bytes,bytes,bytes32,uint256,bytes32,bytes,bytes)[],address)",
+  // Bridges and rollup operations
+  "0xb1a1a882": "depositETH(uint32,bytes)",
+  "0x9a2ac6d5": "depositETHTo(address,uint32,bytes)",
+  "0x58a997f6": "depositERC20(address,address,uint256,uint32,bytes)",
+  "0xe11013dd": "bridgeETHTo(address,uint32,bytes)",
+  "0xe9e05c42": "depositTransaction(address,uint256,uint64,bool,bytes)",
+  "0x9aaab648": "proposeL2Output(bytes32,uint256,bytes32,uint256)",
+  "0xd2ce7d65": "outboundTransfer(address,address,uint256,uint256,uint256,bytes)",
+  "0x439370b1": "depositEth()",
+  "0x679b6ded": "createRetryableTicket(address,uint256,uint256,address,address,uint256,uint256,bytes)",
+  "0x25e16063": "withdrawEth(address)",
+  "0x3e5aa082": "addSequencerL2BatchFromBlobs(uint256,uint256,address,uint256,uint256)",
+  // Multicall3
+  "0x252dba42": "aggregate((address,bytes)[])",
+  "0x82ad56cb": "aggregate3((address,bool,bytes)[])",
+  "0xbce38bd7": "tryAggregate(bool,(address,bytes)[])",
+  // Governance and administration
+  "0x5c19a95c": "delegate(address)",
+  "0x56781388": "castVote(uint256,uint8)",
+  "0x7b3c71d3": "castVoteWithReason(uint256,uint8,string)",
+  "0xf2fde38b": "transferOwnership(address)",
+  "0x715018a6": "renounceOwnership()",
+  "0x3659cfe6": "upgradeTo(address)",
+  "0x4f1ef286": "upgradeToAndCall(address,bytes)",
+};
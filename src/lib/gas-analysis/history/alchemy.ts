@@ -0,0 +1,80 @@
+import axios from "axios";
+import { z } from "zod";
+import { hashSubject, parseResponse, parseRows } from "../diagnostics";
+import { methodSelectorOf } from "../signatures";
+import { addressSchema, hashSchema, quantitySchema, timestampSchema } from "../schemas";
+import type { Transaction } from "../types";
+import type { HistoryPage, HistoryPageOptions, TransactionHistoryProvider } from "./types";
+
+const SOURCE = "Alchemy history";
+
+const alchemyHistoryResponseSchema = z.object({
+  transactions: z.array(z.unknown()).default([]),
+  after: z.string().nullish(),
+});
+
+const alchemyTransactionSchema = z.object({
+  hash: hashSchema,
+  blockNumber: quantitySchema,
+  blockTimestamp: timestampSchema,
+  fromAddress: addressSchema.nullish(),
+  toAddress: addressSchema.nullish(),
+  from: addressSchema.nullish(),
+  to: addressSchema.nullish(),
+  gas: quantitySchema.nullish(),
+  gasUsed: quantitySchema.nullish(),
+  gasPrice: quantitySchema.nullish(),
+  effectiveGasPrice: quantitySchema.nullish(),
+  input: z.string().nullish(),
+});
+
+/**
+ * Alchemy Transaction History API (transactions/history/by-address)
+ */
+export class AlchemyHistoryProvider implements TransactionHistoryProvider {
+  readonly name = "Alchemy";
+
+  constructor(private readonly apiKey: string) {}
+
+  async fetchPage(
+    address: string,
+    network: string,
+    cursor?: string,
+    options: HistoryPageOptions = {}
+  ): Promise<HistoryPage> {
+    const url = `https://api.g.alchemy.com/data/v1/${this.apiKey}/transactions/history/by-address`;
+    // Prepare the request payload with a limit (max 50)
+    const data: { addresses: { address: string; networks: string[] }[]; limit: number; after?: string } = {
+      addresses: [{ address, networks: [network] }],
+      limit: 50,
+    };
+    // If a cursor was returned, include it in the next request as "after"
+    if (cursor) {
+      data.after = cursor;
+    }
+
+    const response = await axios.post(url, data, { signal: options.signal });
+    const { transactions: rows, after } = parseResponse(
+      alchemyHistoryResponseSchema,
+      response.data,
+      SOURCE,
+      options.diagnostics
+    );
+
+    const transactions: Transaction[] = parseRows(alchemyTransactionSchema, rows, SOURCE, options.diagnostics, hashSubject).map(
+      (tx) => ({
+        hash: tx.hash,
+        blockNumber: tx.blockNumber,
+        blockTimestamp: tx.blockTimestamp,
+        from: tx.from ?? tx.fromAddress ?? undefined,
+        to: tx.to ?? tx.toAddress ?? undefined,
+        gas: tx.gas ?? undefined,
+        gasUsed: tx.gasUsed ?? undefined,
+        gasPrice: tx.gasPrice ?? undefined,
+        effectiveGasPrice: tx.effectiveGasPrice ?? undefined,
+        methodSelector: methodSelectorOf(tx.input),
+      })
+    );
+    return { transactions, cursor: after || undefined };
+  }
+}
@@ -0,0 +1,134 @@
+import axios from "axios";
+import { z } from "zod";
+import { hashSubject, parseResponse, parseRows } from "../diagnostics";
+import { addressSchema, hashSchema, quantitySchema, timestampSchema } from "../schemas";
+import type { Transaction } from "../types";
+import { getNetwork } from "../networks";
+import { methodSelectorOf } from "../signatures";
+import { HttpError } from "../scheduler";
+import type { HistoryPage, HistoryPageOptions, TransactionHistoryProvider } from "./types";
+
+const PAGE_SIZE = 1000;
+/** Etherscan rejects queries where page × offset exceeds this */
+const MAX_RESULT_WINDOW = 10_000;
+const LATEST_BLOCK = 99999999;
+const SOURCE = "Etherscan history";
+
+const etherscanResponseSchema = z.object({
+  status: z.string(),
+  message: z.string(),
+  result: z.union([z.array(z.unknown()), z.string()]),
+});
+
+const etherscanTransactionSchema = z.object({
+  hash: hashSchema,
+  blockNumber: quantitySchema,
+  timeStamp: timestampSchema,
+  from: addressSchema,
+  // Contract creations have an empty "to"
+  to: z.union([addressSchema, z.literal("")]),
+  gas: quantitySchema,
+  gasUsed: quantitySchema,
+  gasPrice: quantitySchema,
+  /** "1" when execution reverted */
+  isError: z.enum(["0", "1"]).optional(),
+  input: z.string().optional(),
+});
+
+export interface EtherscanHistoryOptions {
+  apiKey: string;
+  /** Any Etherscan-compatible "txlist" endpoint; defaults to Etherscan V2 */
+  baseUrl?: string;
+}
+
+/**
+ * Etherscan-compatible account/txlist provider. Works with Etherscan and its clones
+ * (Blockscout, Routescan, ...) that expose the same query interface.
+ * Etherscan caps page × offset at 10,000 results per query, so full pages move the block
+ * range down instead of asking for the next page.
+ */
+export class EtherscanHistoryProvider implements TransactionHistoryProvider {
+  readonly name = "Etherscan";
+
+  constructor(private readonly options: EtherscanHistoryOptions) {}
+
+  async fetchPage(
+    address: string,
+    network: string,
+    cursor?: string,
+    options: HistoryPageOptions = {}
+  ): Promise<HistoryPage> {
+    // The cursor is "<highest block to fetch>:<page>"
+    let endBlock = LATEST_BLOCK;
+    let page = 1;
+    if (cursor) {
+      [endBlock, page] = cursor.split(":").map(Number);
+    }
+    const params: Record<string, string | number> = {
+      module: "account",
+      action: "txlist",
+      address,
+      startblock: options.fromBlock ?? 0,
+      endblock: endBlock,
+      page,
+      offset: PAGE_SIZE,
+      sort: "desc",
+      apikey: this.options.apiKey,
+    };
+    // The V2 endpoint serves every chain and selects it by chain id
+    if (!this.options.baseUrl) {
+      params.chainid = getNetwork(network).chainId;
+    }
+
+    const response = await axios.get(this.options.baseUrl || "https://api.etherscan.io/v2/api", { params, signal: options.signal });
+    const { status, message, result } = parseResponse(etherscanResponseSchema, response.data, SOURCE, options.diagnostics);
+
+    if (status !== "1") {
+      // An empty history is reported as an error status with an empty result
+      if (Array.isArray(result) && result.length === 0) {
+        return { transactions: [] };
+      }
+      // Rate limiting is reported in the body of a 200 response
+      if (typeof result === "string" && /rate limit/i.test(result)) {
+        throw new HttpError(`Etherscan txlist rate limited: ${result}`, 429);
+      }
+      throw new Error(`Etherscan txlist failed: ${message}${typeof result === "string" ? ` (${result})` : ""}`);
+    }
+
+    if (typeof result === "string") {
+      throw new Error(`Etherscan txlist failed: ${result}`);
+    }
+
+    const rows = parseRows(etherscanTransactionSchema, result, SOURCE, options.diagnostics, hashSubject);
+    const transactions: Transaction[] = rows.map((tx) => ({
+      hash: tx.hash,
+      blockNumber: tx.blockNumber,
+      blockTimestamp: tx.timeStamp,
+      from: tx.from,
+      to: tx.to || undefined,
+      gas: tx.gas,
+      gasUsed: tx.gasUsed,
+      gasPrice: tx.gasPrice,
+      failed: tx.isError === undefined ? undefined : tx.isError === "1",
+      methodSelector: methodSelectorOf(tx.input),
+    }));
+    if (result.length < PAGE_SIZE) {
+      return { transactions };
+    }
+
+    // A full page may end partway through its lowest block, so that block is left for the next query
+    const lowestBlock = transactions.reduce(
+      (lowest, tx) => Math.min(lowest, Number(tx.blockNumber)),
+      Number.MAX_SAFE_INTEGER
+    );
+    const complete = transactions.filter((tx) => Number(tx.blockNumber) > lowestBlock);
+    if (complete.length === 0) {
+      // The whole page is one block: page through it while the result window allows
+      return {
+        transactions,
+        cursor: (page + 1) * PAGE_SIZE <= MAX_RESULT_WINDOW ? `${endBlock}:${page + 1}` : undefined,
+      };
+    }
+    return { transactions: complete, cursor: `${lowestBlock}:1` };
+  }
+}
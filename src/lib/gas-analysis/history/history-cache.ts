@@ -0,0 +1,78 @@
+import { HISTORIES_STORE, isIndexedDbSupported, openDatabase, promisify, transactionDone } from "../idb";
+import type { Transaction } from "../types";
+import type { UserOperation } from "../user-operations";
+
+/**
+ * Transaction history synced for one address, network and provider
+ */
+export interface StoredHistory {
+  /** Lowercased address */
+  address: string;
+  network: string;
+  provider: string;
+  /** Highest block number among the stored transactions */
+  newestBlock: number;
+  /** Sorted newest first */
+  transactions: Transaction[];
+  /** ERC-4337 user operations sent by the address, from EntryPoint logs scanned up to scannedBlock */
+  userOperations?: { scannedBlock: number; operations: UserOperation[] };
+  /** Epoch milliseconds of the last sync */
+  updatedAt: number;
+}
+
+export interface HistoryCacheStats {
+  histories: number;
+  transactions: number;
+}
+
+/**
+ * Persistent store of synced transaction histories
+ */
+export interface HistoryCache {
+  get(address: string, network: string, provider: string): Promise<StoredHistory | null>;
+  put(history: StoredHistory): Promise<void>;
+  stats(): Promise<HistoryCacheStats>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Browser history cache backed by IndexedDB (also available inside Web Workers)
+ */
+export class IndexedDbHistoryCache implements HistoryCache {
+  constructor(private readonly dbName?: string) {}
+
+  static isSupported(): boolean {
+    return isIndexedDbSupported();
+  }
+
+  async get(address: string, network: string, provider: string): Promise<StoredHistory | null> {
+    const db = await openDatabase(this.dbName);
+    const store = db.transaction(HISTORIES_STORE, "readonly").objectStore(HISTORIES_STORE);
+    const record = await promisify(store.get([address.toLowerCase(), network, provider]) as IDBRequest<StoredHistory>);
+    return record ?? null;
+  }
+
+  async put(history: StoredHistory): Promise<void> {
+    const db = await openDatabase(this.dbName);
+    const transaction = db.transaction(HISTORIES_STORE, "readwrite");
+    transaction.objectStore(HISTORIES_STORE).put({ ...history, address: history.address.toLowerCase() });
+    await transactionDone(transaction);
+  }
+
+  async stats(): Promise<HistoryCacheStats> {
+    const db = await openDatabase(this.dbName);
+    const store = db.transaction(HISTORIES_STORE, "readonly").objectStore(HISTORIES_STORE);
+    const records = await promisify(store.getAll() as IDBRequest<StoredHistory[]>);
+    return {
+      histories: records.length,
+      transactions: records.reduce((sum, record) => sum + record.transactions.length, 0),
+    };
+  }
+
+  async clear(): Promise<void> {
+    const db = await openDatabase(this.dbName);
+    const transaction = db.transaction(HISTORIES_STORE, "readwrite");
+    transaction.objectStore(HISTORIES_STORE).clear();
+    await transactionDone(transaction);
+  }
+}
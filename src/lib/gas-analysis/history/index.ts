@@ -0,0 +1,38 @@
+import { AlchemyHistoryProvider } from "./alchemy";
+import { EtherscanHistoryProvider } from "./etherscan";
+import { JsonRpcHistoryProvider } from "./json-rpc";
+import type { TransactionHistoryProvider } from "./types";
+
+export type HistoryProviderConfig =
+  | { kind: "alchemy"; apiKey: string }
+  | { kind: "etherscan"; apiKey: string; baseUrl?: string }
+  | { kind: "json-rpc"; rpcUrl: string; blocksPerPage?: number; maxBlocks?: number };
+
+export type HistoryProviderKind = HistoryProviderConfig["kind"];
+
+/**
+ * Build a history provider from a runtime configuration
+ */
+export function createHistoryProvider(config: HistoryProviderConfig): TransactionHistoryProvider {
+  switch (config.kind) {
+    case "alchemy":
+      return new AlchemyHistoryProvider(config.apiKey);
+    case "etherscan":
+      return new EtherscanHistoryProvider({ apiKey: config.apiKey, baseUrl: config.baseUrl });
+    case "json-rpc":
+      return new JsonRpcHistoryProvider({
+        rpcUrl: config.rpcUrl,
+        blocksPerPage: config.blocksPerPage,
+        maxBlocks: config.maxBlocks,
+      });
+  }
+}
+
+export { AlchemyHistoryProvider, EtherscanHistoryProvider, JsonRpcHistoryProvider };
+export { IndexedDbHistoryCache } from "./history-cache";
+export { fetchTransactionHistory, syncTransactionHistory } from "./sync";
+export type { FetchHistoryOptions, SyncHistoryOptions, SyncedHistory } from "./sync";
+export type { HistoryCache, HistoryCacheStats, StoredHistory } from "./history-cache";
+export type { HistoryPage, HistoryPageOptions, TransactionHistoryProvider } from "./types";
+export type { EtherscanHistoryOptions } from "./etherscan";
+export type { JsonRpcHistoryOptions } from "./json-rpc";
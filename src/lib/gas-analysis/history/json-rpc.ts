@@ -0,0 +1,157 @@
+import { z } from "zod";
+import { parseResponse, parseRows } from "../diagnostics";
+import { NETWORKS } from "../networks";
+import { applyReceipt, fetchReceipts } from "../receipts";
+import { rpcBatch } from "../rpc";
+import { methodSelectorOf } from "../signatures";
+import { addressSchema, hashSchema, quantitySchema, timestampSchema } from "../schemas";
+import type { Transaction } from "../types";
+import type { HistoryPage, HistoryPageOptions, TransactionHistoryProvider } from "./types";
+
+const SOURCE = "JSON-RPC history";
+
+const rpcTransactionSchema = z.object({
+  hash: hashSchema,
+  from: addressSchema,
+  to: addressSchema.nullish(),
+  gas: quantitySchema,
+  gasPrice: quantitySchema.nullish(),
+  input: z.string().nullish(),
+});
+
+const rpcBlockSchema = z.object({
+  number: quantitySchema,
+  timestamp: timestampSchema,
+  baseFeePerGas: quantitySchema.nullish(),
+  // Transactions are validated one by one so a single odd entry does not drop the block
+  transactions: z.array(z.unknown()),
+});
+
+type RpcTransaction = z.infer<typeof rpcTransactionSchema>;
+type RpcBlock = z.infer<typeof rpcBlockSchema>;
+
+export interface JsonRpcHistoryOptions {
+  rpcUrl: string;
+  /** Blocks scanned per page (one batch request) */
+  blocksPerPage?: number;
+  /** How far back from the chain head to scan */
+  maxBlocks?: number;
+}
+
+/**
+ * Plain JSON-RPC provider for nodes without an indexing API.
+ * Walks blocks backwards from the chain head and keeps the transactions sent from or to the address,
+ * so it is only practical for a bounded lookback window.
+ */
+export class JsonRpcHistoryProvider implements TransactionHistoryProvider {
+  readonly name = "JSON-RPC";
+
+  private readonly blocksPerPage: number;
+  private readonly maxBlocks: number;
+
+  constructor(private readonly options: JsonRpcHistoryOptions) {
+    this.blocksPerPage = options.blocksPerPage ?? 50;
+    this.maxBlocks = options.maxBlocks ?? 5000;
+  }
+
+  async fetchPage(
+    address: string,
+    network: string,
+    cursor?: string,
+    options: HistoryPageOptions = {}
+  ): Promise<HistoryPage> {
+    // The cursor is "<next block to scan>:<lowest block to scan>"
+    let fromBlock: number;
+    let floorBlock: number;
+    if (cursor) {
+      [fromBlock, floorBlock] = cursor.split(":").map(Number);
+    } else {
+      const [rawChainId, rawHead] = await rpcBatch<unknown>(
+        this.options.rpcUrl,
+        [
+          { method: "eth_chainId", params: [] },
+          { method: "eth_blockNumber", params: [] },
+        ],
+        options.signal,
+        options.diagnostics
+      );
+      // The endpoint decides the chain, so make sure it is the one being analyzed
+      const chainId = Number(parseResponse(quantitySchema, rawChainId, `${SOURCE} eth_chainId`, options.diagnostics));
+      const expected = NETWORKS.find((candidate) => candidate.id === network);
+      if (expected && expected.chainId !== chainId) {
+        throw new Error(`JSON-RPC endpoint serves chain ${chainId}, not ${expected.name} (${expected.chainId})`);
+      }
+      const head = Number(parseResponse(quantitySchema, rawHead, `${SOURCE} eth_blockNumber`, options.diagnostics));
+      fromBlock = head;
+      floorBlock = Math.max(0, head - this.maxBlocks + 1, options.fromBlock ?? 0);
+    }
+
+    const toBlock = Math.max(floorBlock, fromBlock - this.blocksPerPage + 1);
+    const blockNumbers: number[] = [];
+    for (let n = fromBlock; n >= toBlock; n--) {
+      blockNumbers.push(n);
+    }
+
+    const rawBlocks = await rpcBatch<unknown>(
+      this.options.rpcUrl,
+      blockNumbers.map((n) => ({ method: "eth_getBlockByNumber", params: [`0x${n.toString(16)}`, true] })),
+      options.signal,
+      options.diagnostics
+    );
+    // Blocks beyond the head come back as null and are not an error
+    const blocks = parseRows(
+      rpcBlockSchema.nullable(),
+      rawBlocks,
+      `${SOURCE} block`,
+      options.diagnostics,
+      (_block, index) => `block ${blockNumbers[index]}`
+    ).filter((block) => block !== null);
+
+    const target = address.toLowerCase();
+    const matches: { tx: RpcTransaction; block: RpcBlock }[] = [];
+    for (const block of blocks) {
+      const transactions = parseRows(
+        rpcTransactionSchema,
+        block.transactions,
+        `${SOURCE} transaction`,
+        options.diagnostics,
+        (_tx, index) => `block ${block.number} transaction ${index}`
+      );
+      for (const tx of transactions) {
+        if (tx.from?.toLowerCase() === target || tx.to?.toLowerCase() === target) {
+          matches.push({ tx, block });
+        }
+      }
+    }
+
+    const receipts =
+      matches.length > 0
+        ? await fetchReceipts(
+            this.options.rpcUrl,
+            matches.map(({ tx }) => tx.hash),
+            { signal: options.signal, diagnostics: options.diagnostics, source: `${SOURCE} receipt` }
+          )
+        : new Map();
+
+    const transactions: Transaction[] = matches.map(({ tx, block }) => {
+      const transaction: Transaction = {
+        hash: tx.hash,
+        blockNumber: block.number,
+        blockTimestamp: block.timestamp,
+        from: tx.from,
+        to: tx.to || undefined,
+        gas: tx.gas,
+        gasPrice: tx.gasPrice ?? undefined,
+        baseFeePerGas: block.baseFeePerGas ?? null,
+        methodSelector: methodSelectorOf(tx.input),
+      };
+      const receipt = receipts.get(tx.hash.toLowerCase());
+      return receipt ? applyReceipt(transaction, receipt) : transaction;
+    });
+
+    return {
+      transactions,
+      cursor: toBlock > floorBlock ? `${toBlock - 1}:${floorBlock}` : undefined,
+    };
+  }
+}
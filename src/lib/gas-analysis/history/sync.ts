@@ -0,0 +1,193 @@
+import type { Diagnostics } from "../diagnostics";
+import { scheduled, type RequestScheduler } from "../scheduler";
+import type { Transaction } from "../types";
+import type { HistoryCache } from "./history-cache";
+import type { TransactionHistoryProvider } from "./types";
+
+function blockOf(tx: Transaction): number | undefined {
+  return tx.blockNumber === undefined ? undefined : Number(tx.blockNumber);
+}
+
+export interface FetchHistoryOptions {
+  /** Stop paginating at the first page reaching below this block */
+  fromBlock?: number;
+  scheduler?: RequestScheduler;
+  signal?: AbortSignal;
+  diagnostics?: Diagnostics;
+  /** Called with each page's transactions as it arrives */
+  onPage?: (transactions: Transaction[]) => void;
+}
+
+export interface SyncHistoryOptions {
+  cache?: HistoryCache;
+  scheduler?: RequestScheduler;
+  signal?: AbortSignal;
+  diagnostics?: Diagnostics;
+  /** Called with each fetched page's transactions */
+  onPage?: (transactions: Transaction[]) => void;
+  /** Human-readable sync milestones */
+  onLog?: (message: string) => void;
+  /**
+   * Completes the merged history before it is stored, e.g. with receipt fields the provider lacks.
+   * Should leave already complete transactions untouched so only new ones cost requests.
+   */
+  enrich?: (transactions: Transaction[]) => Promise<Transaction[]>;
+}
+
+export interface SyncedHistory {
+  /** Sorted newest first */
+  transactions: Transaction[];
+  /** False when the sync was aborted and only part of the new transactions were fetched */
+  complete: boolean;
+}
+
+/**
+ * Fetch transaction history for the given address by following the provider's pagination cursor
+ */
+export async function fetchTransactionHistory(
+  provider: TransactionHistoryProvider,
+  address: string,
+  network: string,
+  options: FetchHistoryOptions = {}
+): Promise<Transaction[]> {
+  const { fromBlock, scheduler, signal, diagnostics, onPage } = options;
+  let transactions: Transaction[] = [];
+  let cursor: string | undefined = undefined;
+  let page = 1;
+
+  do {
+    const label = `${provider.name} history page ${page}`;
+    try {
+      const pageCursor = cursor;
+      const result = await scheduled(scheduler, label, () =>
+        provider.fetchPage(address, network, pageCursor, { fromBlock, signal, diagnostics })
+      );
+      transactions = transactions.concat(result.transactions);
+      onPage?.(result.transactions);
+      cursor = result.cursor;
+      page++;
+
+      // Pages are newest first, so once a page reaches below fromBlock everything after it is already known
+      if (fromBlock !== undefined && result.transactions.some((tx) => (blockOf(tx) ?? Infinity) < fromBlock)) {
+        cursor = undefined;
+      }
+    } catch (error) {
+      if (!signal?.aborted) {
+        diagnostics?.add({
+          kind: "failed-request",
+          source: `${provider.name} history`,
+          message: `${error.message}; the history of ${address} could not be loaded`,
+          subject: label,
+        });
+      }
+      throw error;
+    }
+  } while (cursor);
+
+  return transactions;
+}
+
+/**
+ * Merge newly fetched transactions into a stored set, deduplicated by hash and sorted newest first
+ */
+function mergeTransactions(stored: Transaction[], fetched: Transaction[]): Transaction[] {
+  const byHash = new Map<string, Transaction>();
+  for (const tx of stored) {
+    byHash.set(tx.hash.toLowerCase(), tx);
+  }
+  for (const tx of fetched) {
+    byHash.set(tx.hash.toLowerCase(), tx);
+  }
+  return [...byHash.values()].sort((a, b) => (blockOf(b) ?? 0) - (blockOf(a) ?? 0));
+}
+
+/**
+ * Load the address history, fetching only blocks newer than the last sync when a cache is given.
+ * The newest synced block is fetched again since it may have been only partially seen.
+ * When aborted, the transactions gathered so far are returned unsaved with complete set to false.
+ */
+export async function syncTransactionHistory(
+  provider: TransactionHistoryProvider,
+  address: string,
+  network: string,
+  options: SyncHistoryOptions = {}
+): Promise<SyncedHistory> {
+  const { cache, scheduler, signal, diagnostics, onPage, onLog, enrich } = options;
+  let stored = null;
+  if (cache) {
+    try {
+      stored = await cache.get(address, network, provider.name);
+    } catch (error) {
+      diagnostics?.add({
+        kind: "failed-request",
+        source: "History cache",
+        message: `${error.message}; the full history is fetched again`,
+        subject: address,
+      });
+    }
+  }
+
+  if (stored) {
+    onLog?.(`Syncing transactions since block ${stored.newestBlock.toLocaleString()}...`);
+  }
+  const fetched: Transaction[] = [];
+  try {
+    await fetchTransactionHistory(provider, address, network, {
+      fromBlock: stored?.newestBlock,
+      scheduler,
+      signal,
+      diagnostics,
+      onPage: (transactions) => {
+        fetched.push(...transactions);
+        onPage?.(transactions);
+      },
+    });
+  } catch (error) {
+    if (!signal?.aborted) {
+      throw error;
+    }
+    // A partial sync must not be stored: its newest block would hide the older gap on the next run
+    return { transactions: stored ? mergeTransactions(stored.transactions, fetched) : fetched, complete: false };
+  }
+
+  let transactions = stored ? mergeTransactions(stored.transactions, fetched) : fetched;
+  if (stored) {
+    onLog?.(`Found ${transactions.length - stored.transactions.length} new transactions`);
+  }
+  if (enrich) {
+    try {
+      transactions = await enrich(transactions);
+    } catch (error) {
+      if (!signal?.aborted) {
+        throw error;
+      }
+      return { transactions, complete: false };
+    }
+  }
+
+  const blocks = transactions.map(blockOf).filter((block) => block !== undefined && !Number.isNaN(block));
+  // Without block numbers there is no cursor to resume from, so the history is not stored
+  if (cache && blocks.length === transactions.length && blocks.length > 0) {
+    await cache
+      .put({
+        address,
+        network,
+        provider: provider.name,
+        newestBlock: Math.max(...blocks),
+        transactions,
+        // Kept until the user operation scan that follows the sync updates it
+        userOperations: stored?.userOperations,
+        updatedAt: Date.now(),
+      })
+      .catch((error) =>
+        diagnostics?.add({
+          kind: "failed-request",
+          source: "History cache",
+          message: `${error.message}; the next analysis fetches the full history again`,
+          subject: address,
+        })
+      );
+  }
+
+  return { transactions, complete: true };
+}
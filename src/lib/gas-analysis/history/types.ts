@@ -0,0 +1,28 @@
+import type { Diagnostics } from "../diagnostics";
+import type { Transaction } from "../types";
+
+export interface HistoryPage {
+  transactions: Transaction[];
+  /** Opaque cursor for the next page; undefined when the history is exhausted */
+  cursor?: string;
+}
+
+export interface HistoryPageOptions {
+  /**
+   * Lowest block of interest. Providers that can filter server-side skip older transactions;
+   * others may still return them and the caller stops paginating on its own.
+   */
+  fromBlock?: number;
+  signal?: AbortSignal;
+  /** Receives rows and responses that fail schema validation */
+  diagnostics?: Diagnostics;
+}
+
+/**
+ * Source of paginated transaction history for an address on a network.
+ * Pages are returned newest first.
+ */
+export interface TransactionHistoryProvider {
+  readonly name: string;
+  fetchPage(address: string, network: string, cursor?: string, options?: HistoryPageOptions): Promise<HistoryPage>;
+}
@@ -0,0 +1,55 @@
+const DB_NAME = "gas-analysis";
+const DB_VERSION = 3;
+
+export const PRICES_STORE = "prices";
+export const HISTORIES_STORE = "histories";
+
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function isIndexedDbSupported(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+/**
+ * Open (and create or upgrade) the shared analysis database; connections are reused per name
+ */
+export function openDatabase(name = DB_NAME): Promise<IDBDatabase> {
+  let connection = connections.get(name);
+  if (!connection) {
+    connection = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        // Version 3 added the provider to the price key; older prices cannot be attributed, so they are dropped
+        if (event.oldVersion < 3 && db.objectStoreNames.contains(PRICES_STORE)) {
+          db.deleteObjectStore(PRICES_STORE);
+        }
+        if (!db.objectStoreNames.contains(PRICES_STORE)) {
+          db.createObjectStore(PRICES_STORE, { keyPath: ["provider", "symbol", "currency", "bucket"] });
+        }
+        if (!db.objectStoreNames.contains(HISTORIES_STORE)) {
+          db.createObjectStore(HISTORIES_STORE, { keyPath: ["address", "network", "provider"] });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    connections.set(name, connection);
+  }
+  return connection;
+}
@@ -0,0 +1,89 @@
+export { isEnsName, toChecksumAddress, validateAddress } from "./address";
+export type { AddressValidation } from "./address";
+export { LATER_BASE_FEE_HOURS, enrichWithBaseFees, enrichWithLaterBaseFees, fetchBlockHeaders } from "./blocks";
+export type { BlockHeader, EnrichBaseFeesOptions, EnrichLaterBaseFeesOptions } from "./blocks";
+export { calculateGasCosts } from "./engine";
+export { Diagnostics, parseResponse, parseRows } from "./diagnostics";
+export type { Diagnostic, DiagnosticKind } from "./diagnostics";
+export { namehash, resolveEnsName } from "./ens";
+export { AnalysisCancelledError, JsonRpcError, ResponseValidationError } from "./errors";
+export type { AnalysisOptions } from "./engine";
+export {
+  AlchemyHistoryProvider,
+  EtherscanHistoryProvider,
+  IndexedDbHistoryCache,
+  JsonRpcHistoryProvider,
+  createHistoryProvider,
+  fetchTransactionHistory,
+  syncTransactionHistory,
+} from "./history";
+export type {
+  EtherscanHistoryOptions,
+  FetchHistoryOptions,
+  HistoryCache,
+  HistoryCacheStats,
+  HistoryPage,
+  HistoryPageOptions,
+  HistoryProviderConfig,
+  HistoryProviderKind,
+  JsonRpcHistoryOptions,
+  StoredHistory,
+  SyncHistoryOptions,
+  SyncedHistory,
+  TransactionHistoryProvider,
+} from "./history";
+export {
+  AlchemyPriceProvider,
+  HOUR_MS,
+  CoinGeckoPriceProvider,
+  IndexedDbPriceCache,
+  PriceFileProvider,
+  PriceTable,
+  createPriceProvider,
+  loadPriceTable,
+  toHourBucket,
+} from "./prices";
+export type {
+  CoinGeckoPriceOptions,
+  LoadPriceTableOptions,
+  PriceCache,
+  PriceCacheStats,
+  PriceFetchOptions,
+  PriceFileOptions,
+  PricePoint,
+  PriceProvider,
+  PriceProviderConfig,
+  PriceProviderKind,
+  PriceQuery,
+} from "./prices";
+export { BUILTIN_LABELS, LABEL_CATEGORIES, LabelRegistry, parseLabels, protocolLabelSchema } from "./labels";
+export type { ProtocolLabel } from "./labels";
+export { DEFAULT_NETWORK, NATIVE_TOKENS, NETWORKS, getNetwork, nativeSymbolAt } from "./networks";
+export type { NetworkInfo } from "./networks";
+export { ProgressTracker } from "./progress";
+export type { AnalysisPhase, AnalysisProgress, ProgressCallback } from "./progress";
+export { applyReceipt, enrichWithReceipts, fetchReceipts } from "./receipts";
+export type { EnrichReceiptsOptions, Receipt } from "./receipts";
+export { HttpError, RequestScheduler, parseRetryAfter } from "./scheduler";
+export type { RequestStats, RetriedRequest, SchedulerOptions } from "./scheduler";
+export { SignatureDatabase, methodName, methodSelectorOf, selectorOf } from "./signatures";
+export { simulateFees } from "./simulation";
+export type { FeeScenario, FeeScenarioKind, FeeSimulation } from "./simulation";
+export { FOUR_BYTE_SIGNATURES } from "./four-byte-signatures";
+export { MEDIAN_REWARD_INDEX, REWARD_PERCENTILES, enrichWithFeeHistory, fetchRewardPercentiles } from "./fee-history";
+export type { EnrichFeeHistoryOptions } from "./fee-history";
+export type {
+  AddressBreakdown,
+  AnalysisResult,
+  AnalysisStatistics,
+  ExcludedInbound,
+  FeeAttribution,
+  MethodSpend,
+  ProtocolSpend,
+  Transaction,
+  TxCost,
+} from "./types";
+export { ENTRY_POINTS, fetchUserOperations, isEntryPoint } from "./user-operations";
+export type { FetchUserOperationsOptions, UserOperation, UserOperationScan } from "./user-operations";
+export { analyzeRequest, isWorkerSupported, runAnalysis, runAnalysisInWorker } from "./worker";
+export type { WorkerAnalysisRequest, WorkerRequest, WorkerResponse, WorkerRunOptions } from "./worker";
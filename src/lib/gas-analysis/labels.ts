@@ -0,0 +1,134 @@
+import { z } from "zod";
+import { addressSchema } from "./schemas";
+import { ENTRY_POINTS } from "./user-operations";
+
+export const protocolLabelSchema = z.object({
+  address: addressSchema,
+  /** Protocol name; addresses sharing a name are grouped together */
+  name: z.string().trim().min(1),
+  /** Free-form category such as "dex", "nft" or "bridge" */
+  category: z.string().trim().min(1).default("other"),
+  /** Network id the label applies to; every network when absent */
+  network: z.string().optional(),
+});
+
+export type ProtocolLabel = z.infer<typeof protocolLabelSchema>;
+
+/** Suggested categories; imported labels may use others */
+export const LABEL_CATEGORIES = [
+  "dex",
+  "aggregator",
+  "nft",
+  "bridge",
+  "lending",
+  "staking",
+  "token",
+  "naming",
+  "rollup",
+  "infrastructure",
+  "other",
+];
+
+const mainnet = (address: string, name: string, category: string): ProtocolLabel => ({
+  address,
+  name,
+  category,
+  network: "eth-mainnet",
+});
+
+/** Well-known contracts, labeled without any configuration */
+export const BUILTIN_LABELS: ProtocolLabel[] = [
+  mainnet("0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D", "Uniswap", "dex"),
+  mainnet("0xE592427A0AEce92De3Edee1F18E0157C05861564", "Uniswap", "dex"),
+  mainnet("0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45", "Uniswap", "dex"),
+  mainnet("0xEf1c6E67703c7BD7107eed8303Fbe6EC2554BF6B", "Uniswap", "dex"),
+  mainnet("0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD", "Uniswap", "dex"),
+  mainnet("0x66a9893cC07D91D95644AEDD05D03f95e1dBA8Af", "Uniswap", "dex"),
+  mainnet("0xC36442b4a4522E871399CD717aBDD847Ab11FE88", "Uniswap", "dex"),
+  mainnet("0xbEbc44782C7dB0a1A60Cb6fe97d0b483032FF1C7", "Curve", "dex"),
+  mainnet("0x1111111254EEB25477B68fb85Ed929f73A960582", "1inch", "aggregator"),
+  mainnet("0x111111125421cA6dc452d289314280a0f8842A65", "1inch", "aggregator"),
+  mainnet("0xDef1C0ded9bec7F1a1670819833240f027b25EfF", "0x", "aggregator"),
+  mainnet("0x9008D19f58AAbD9eD0D60971565AA8510560ab41", "CoW Protocol", "aggregator"),
+  mainnet("0x00000000006c3852cbEf3e08E8dF289169EdE581", "OpenSea", "nft"),
+  mainnet("0x00000000000000ADc04C56Bf30aC9d3c0aAF14dC", "OpenSea", "nft"),
+  mainnet("0x0000000000000068F116a894984e2DB1123eB395", "OpenSea", "nft"),
+  mainnet("0x000000000000Ad05Ccc4F10045630fb830B95127", "Blur", "nft"),
+  mainnet("0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2", "Aave", "lending"),
+  mainnet("0x7d2768dE32b0b80b7a3454c06BdAc94A69DDc7A9", "Aave", "lending"),
+  mainnet("0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84", "Lido", "staking"),
+  mainnet("0x283Af0B28c62C092C9727F1Ee09c02CA627EB7F5", "ENS", "naming"),
+  mainnet("0x253553366Da8546fC250F225fe3d25d0C782303b", "ENS", "naming"),
+  mainnet("0x99C9fc46f92E8a1c0deC1b1747d010903E884bE1", "OP Mainnet bridge", "bridge"),
+  mainnet("0x3154Cf16ccdb4C6d922629664174b904d80F2C35", "Base bridge", "bridge"),
+  mainnet("0x4Dbd4fc535Ac27206064B68FfCf827b0A60BAB3f", "Arbitrum bridge", "bridge"),
+  mainnet("0x72Ce9c846789fdB6fC1f34aC4AD25Dd9ef7031ef", "Arbitrum bridge", "bridge"),
+  mainnet("0xA0c68C638235ee32657e8f720a23ceC1bFc77C77", "Polygon bridge", "bridge"),
+  mainnet("0x5c7BCd6E7De5423a257D81B442095A1a6ced35C5", "Across", "bridge"),
+  mainnet("0xFF00000000000000000000000000000000000010", "OP Mainnet batch inbox", "rollup"),
+  mainnet("0xFf00000000000000000000000000000000008453", "Base batch inbox", "rollup"),
+  mainnet("0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", "WETH", "token"),
+  mainnet("0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", "USDC", "token"),
+  mainnet("0xdAC17F958D2ee523a2206206994597C13D831ec7", "USDT", "token"),
+  mainnet("0x6B175474E89094C44Da98b954EedeAC495271d0F", "DAI", "token"),
+  // Deployed at the same address on every supported network
+  { address: "0x000000000022D473030F116dDEE9F6B43aC78BA3", name: "Permit2", category: "infrastructure" },
+  { address: "0xcA11bde05977b3631167028862bE2a173976CA11", name: "Multicall3", category: "infrastructure" },
+  ...ENTRY_POINTS.map((address) => ({ address, name: "ERC-4337 EntryPoint", category: "infrastructure" })),
+];
+
+function keyOf(address: string, network?: string): string {
+  return `${network ?? "*"}:${address.toLowerCase()}`;
+}
+
+function indexLabels(labels: ProtocolLabel[]): Map<string, ProtocolLabel> {
+  return new Map(labels.map((label) => [keyOf(label.address, label.network), label]));
+}
+
+/**
+ * Address-to-protocol labels: user labels take precedence over the built-in ones,
+ * and within each, a label for a specific network wins over one for every network.
+ */
+export class LabelRegistry {
+  private readonly userLabels: Map<string, ProtocolLabel>;
+  private readonly builtins: Map<string, ProtocolLabel>;
+
+  constructor(userLabels: ProtocolLabel[] = [], builtins: ProtocolLabel[] = BUILTIN_LABELS) {
+    this.userLabels = indexLabels(userLabels);
+    this.builtins = indexLabels(builtins);
+  }
+
+  get(address: string | undefined, network: string): ProtocolLabel | undefined {
+    if (!address) {
+      return undefined;
+    }
+    const specific = keyOf(address, network);
+    const any = keyOf(address);
+    return (
+      this.userLabels.get(specific) ??
+      this.userLabels.get(any) ??
+      this.builtins.get(specific) ??
+      this.builtins.get(any)
+    );
+  }
+}
+
+/**
+ * Parse labels from JSON: an array of labels or an object with a "labels" array.
+ * Throws when the JSON or any label is invalid, so a bad import changes nothing.
+ */
+export function parseLabels(text: string): ProtocolLabel[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid labels JSON: ${error.message}`);
+  }
+  const rows = Array.isArray(parsed) ? parsed : (parsed as { labels?: unknown } | null)?.labels;
+  const result = z.array(protocolLabelSchema).safeParse(rows);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid labels: ${issue.path.length > 0 ? `${issue.path.join(".")}: ` : ""}${issue.message}`);
+  }
+  return result.data;
+}
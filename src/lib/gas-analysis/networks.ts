@@ -0,0 +1,103 @@
+/**
+ * Native fee tokens, keyed by the symbol used for price queries
+ */
+export const NATIVE_TOKENS: Record<string, { name: string; coingeckoId: string }> = {
+  ETH: { name: "Ether", coingeckoId: "ethereum" },
+  // POL replaced MATIC 1:1 as Polygon's gas token in September 2024
+  POL: { name: "POL", coingeckoId: "polygon-ecosystem-token" },
+  MATIC: { name: "MATIC", coingeckoId: "matic-network" },
+  BNB: { name: "BNB", coingeckoId: "binancecoin" },
+};
+
+export interface NetworkInfo {
+  /** Alchemy-style network slug, passed to history providers */
+  id: string;
+  name: string;
+  /** EIP-155 chain id, also the Etherscan V2 chainid parameter */
+  chainId: number;
+  /** Symbol of the native token fees are paid in; a key of NATIVE_TOKENS */
+  nativeSymbol: string;
+  /**
+   * Tokens fees were paid in before nativeSymbol, oldest first, each until the epoch milliseconds given.
+   * Used to price older fees; amounts are reported in nativeSymbol, which must have replaced them 1:1.
+   */
+  previousNativeTokens?: { symbol: string; until: number }[];
+  /** Typical block interval, used where no nearby blocks give a better estimate */
+  blockTimeMs: number;
+  /** Rollup stack, for networks whose fees include an L1 data component */
+  rollup?: "op-stack" | "arbitrum";
+  /** A block before the first ERC-4337 EntryPoint deployment (March 2023), where user operation scans start */
+  entryPointBlock: number;
+}
+
+export const NETWORKS: NetworkInfo[] = [
+  {
+    id: "eth-mainnet",
+    name: "Ethereum",
+    chainId: 1,
+    nativeSymbol: "ETH",
+    blockTimeMs: 12_000,
+    entryPointBlock: 16_500_000,
+  },
+  {
+    id: "arb-mainnet",
+    name: "Arbitrum One",
+    chainId: 42161,
+    nativeSymbol: "ETH",
+    blockTimeMs: 250,
+    rollup: "arbitrum",
+    entryPointBlock: 50_000_000,
+  },
+  {
+    id: "opt-mainnet",
+    name: "OP Mainnet",
+    chainId: 10,
+    nativeSymbol: "ETH",
+    blockTimeMs: 2_000,
+    rollup: "op-stack",
+    entryPointBlock: 50_000_000,
+  },
+  // Launched after the EntryPoints existed, so the whole chain is scanned
+  {
+    id: "base-mainnet",
+    name: "Base",
+    chainId: 8453,
+    nativeSymbol: "ETH",
+    blockTimeMs: 2_000,
+    rollup: "op-stack",
+    entryPointBlock: 0,
+  },
+  {
+    id: "polygon-mainnet",
+    name: "Polygon PoS",
+    chainId: 137,
+    nativeSymbol: "POL",
+    blockTimeMs: 2_000,
+    // The gas token switched to POL on 4 September 2024
+    previousNativeTokens: [{ symbol: "MATIC", until: Date.UTC(2024, 8, 4) }],
+    entryPointBlock: 37_000_000,
+  },
+  {
+    id: "bnb-mainnet",
+    name: "BNB Chain",
+    chainId: 56,
+    nativeSymbol: "BNB",
+    blockTimeMs: 750,
+    entryPointBlock: 24_000_000,
+  },
+];
+
+export const DEFAULT_NETWORK = "eth-mainnet";
+
+/** Symbol of the token the network's fees were paid in at the given time, for price lookups */
+export function nativeSymbolAt(network: NetworkInfo, timestamp: number): string {
+  return network.previousNativeTokens?.find((token) => timestamp < token.until)?.symbol ?? network.nativeSymbol;
+}
+
+export function getNetwork(id: string): NetworkInfo {
+  const network = NETWORKS.find((candidate) => candidate.id === id);
+  if (!network) {
+    throw new Error(`Unsupported network ${id}`);
+  }
+  return network;
+}
@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { parseResponse, parseRows } from "../diagnostics";
+import { HttpError } from "../scheduler";
+import { priceSchema, timestampSchema } from "../schemas";
+import { HOUR_MS } from "./price-table";
+import type { PriceFetchOptions, PricePoint, PriceProvider, PriceQuery } from "./types";
+
+const SOURCE = "Alchemy prices";
+
+const alchemyPriceResponseSchema = z.object({
+  data: z.array(z.unknown()),
+});
+
+const alchemyPricePointSchema = z.object({
+  value: priceSchema,
+  timestamp: timestampSchema,
+});
+
+/**
+ * Alchemy Prices API (prices/v1 tokens/historical). Quotes are always in USD.
+ */
+export class AlchemyPriceProvider implements PriceProvider {
+  readonly name = "Alchemy";
+  /** Hourly data is served for at most 30 days per request */
+  readonly maxRangeMs = 30 * 24 * HOUR_MS;
+
+  constructor(private readonly apiKey: string) {}
+
+  async fetchPrices(
+    { symbol, currency, startTime, endTime }: PriceQuery,
+    options: PriceFetchOptions = {}
+  ): Promise<PricePoint[]> {
+    if (currency.toUpperCase() !== "USD") {
+      throw new Error(`Alchemy prices are only available in USD, not ${currency}`);
+    }
+
+    const response = await fetch(`https://api.g.alchemy.com/prices/v1/${this.apiKey}/tokens/historical`, {
+      method: "POST",
+      signal: options.signal,
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        symbol,
+        startTime: new Date(startTime).toISOString(),
+        endTime: new Date(endTime).toISOString(),
+        interval: "1h",
+      }),
+    });
+
+    if (!response.ok) {
+      throw HttpError.fromResponse(response, "Alchemy price request failed");
+    }
+
+    const { data } = parseResponse(alchemyPriceResponseSchema, await response.json(), SOURCE, options.diagnostics);
+    return parseRows(alchemyPricePointSchema, data, SOURCE, options.diagnostics).map((point) => ({
+      timestamp: point.timestamp,
+      price: point.value,
+    }));
+  }
+}
@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { parseResponse, parseRows } from "../diagnostics";
+import { NATIVE_TOKENS } from "../networks";
+import { HttpError } from "../scheduler";
+import { HOUR_MS } from "./price-table";
+import type { PriceFetchOptions, PricePoint, PriceProvider, PriceQuery } from "./types";
+
+const SOURCE = "CoinGecko prices";
+
+const coinGeckoResponseSchema = z.object({
+  prices: z.array(z.unknown()),
+});
+
+/** [epoch milliseconds, price] */
+const coinGeckoPricePointSchema = z.tuple([z.number(), z.number().finite().nonnegative()]);
+
+export interface CoinGeckoPriceOptions {
+  /** Demo or Pro API key; the public API works without one at a lower rate limit */
+  apiKey?: string;
+  /** Defaults to the public API; use https://pro-api.coingecko.com/api/v3 with a Pro key */
+  baseUrl?: string;
+}
+
+/**
+ * CoinGecko coins/{id}/market_chart/range provider.
+ * CoinGecko picks the granularity from the range: 5-minutely below one day, hourly up to 90 days, daily beyond.
+ */
+export class CoinGeckoPriceProvider implements PriceProvider {
+  readonly name = "CoinGecko";
+  /** Ranges up to 90 days keep hourly granularity */
+  readonly maxRangeMs = 90 * 24 * HOUR_MS;
+
+  constructor(private readonly options: CoinGeckoPriceOptions = {}) {}
+
+  async fetchPrices(
+    { symbol, currency, startTime, endTime }: PriceQuery,
+    options: PriceFetchOptions = {}
+  ): Promise<PricePoint[]> {
+    const coinId = NATIVE_TOKENS[symbol.toUpperCase()]?.coingeckoId;
+    if (!coinId) {
+      throw new Error(`CoinGecko provider has no coin id for ${symbol}`);
+    }
+
+    const baseUrl = this.options.baseUrl || "https://api.coingecko.com/api/v3";
+    const params = new URLSearchParams({
+      vs_currency: currency.toLowerCase(),
+      from: String(Math.floor(startTime / 1000)),
+      to: String(Math.ceil(endTime / 1000)),
+    });
+    const headers: Record<string, string> = {};
+    if (this.options.apiKey) {
+      const isPro = baseUrl.includes("pro-api");
+      headers[isPro ? "x-cg-pro-api-key" : "x-cg-demo-api-key"] = this.options.apiKey;
+    }
+
+    const response = await fetch(`${baseUrl}/coins/${coinId}/market_chart/range?${params}`, {
+      headers,
+      signal: options.signal,
+    });
+    if (!response.ok) {
+      throw HttpError.fromResponse(response, "CoinGecko price request failed");
+    }
+
+    const { prices } = parseResponse(coinGeckoResponseSchema, await response.json(), SOURCE, options.diagnostics);
+    return parseRows(coinGeckoPricePointSchema, prices, SOURCE, options.diagnostics)
+      .map(([timestamp, price]) => ({ timestamp, price }))
+      .filter((point) => point.timestamp >= startTime && point.timestamp < endTime);
+  }
+}
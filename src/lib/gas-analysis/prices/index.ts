@@ -0,0 +1,34 @@
+import { AlchemyPriceProvider } from "./alchemy";
+import { CoinGeckoPriceProvider } from "./coingecko";
+import { PriceFileProvider } from "./price-file";
+import type { PriceProvider } from "./types";
+
+export type PriceProviderConfig =
+  | { kind: "alchemy"; apiKey: string }
+  | { kind: "coingecko"; apiKey?: string; baseUrl?: string }
+  | { kind: "price-file"; text: string; format?: "csv" | "json" };
+
+export type PriceProviderKind = PriceProviderConfig["kind"];
+
+/**
+ * Build a price provider from a runtime configuration
+ */
+export function createPriceProvider(config: PriceProviderConfig): PriceProvider {
+  switch (config.kind) {
+    case "alchemy":
+      return new AlchemyPriceProvider(config.apiKey);
+    case "coingecko":
+      return new CoinGeckoPriceProvider({ apiKey: config.apiKey, baseUrl: config.baseUrl });
+    case "price-file":
+      return PriceFileProvider.fromText(config.text, config.format);
+  }
+}
+
+export { AlchemyPriceProvider, CoinGeckoPriceProvider, PriceFileProvider };
+export { IndexedDbPriceCache } from "./price-cache";
+export type { PriceCache, PriceCacheStats } from "./price-cache";
+export { HOUR_MS, PriceTable, loadPriceTable, toHourBucket } from "./price-table";
+export type { LoadPriceTableOptions } from "./price-table";
+export type { PriceFetchOptions, PricePoint, PriceProvider, PriceQuery } from "./types";
+export type { CoinGeckoPriceOptions } from "./coingecko";
+export type { PriceFileOptions } from "./price-file";
@@ -0,0 +1,111 @@
+import { PRICES_STORE, isIndexedDbSupported, openDatabase, promisify, transactionDone } from "../idb";
+import type { PricePoint } from "./types";
+
+export interface PriceCacheStats {
+  /** Number of cached hourly prices */
+  entries: number;
+  /** Cached provider symbol/currency pairs, e.g. "CoinGecko ETH/USD" */
+  pairs: string[];
+  /** Oldest and newest cached hour buckets (epoch milliseconds) */
+  oldest: number | null;
+  newest: number | null;
+}
+
+/**
+ * Persistent store of hourly prices keyed by provider, symbol, currency and hour bucket.
+ * Providers quote slightly different prices, so each keeps its own entries.
+ */
+export interface PriceCache {
+  /** Cached points of the provider (its name) whose hour bucket lies in [startBucket, endBucket] */
+  getRange(
+    provider: string,
+    symbol: string,
+    currency: string,
+    startBucket: number,
+    endBucket: number
+  ): Promise<PricePoint[]>;
+  /** Store points; timestamps must already be hour buckets */
+  putMany(provider: string, symbol: string, currency: string, points: PricePoint[]): Promise<void>;
+  stats(): Promise<PriceCacheStats>;
+  clear(): Promise<void>;
+}
+
+interface PriceCacheRecord {
+  provider: string;
+  symbol: string;
+  currency: string;
+  bucket: number;
+  price: number;
+}
+
+/**
+ * Browser price cache backed by IndexedDB (also available inside Web Workers)
+ */
+export class IndexedDbPriceCache implements PriceCache {
+  constructor(private readonly dbName?: string) {}
+
+  static isSupported(): boolean {
+    return isIndexedDbSupported();
+  }
+
+  async getRange(
+    provider: string,
+    symbol: string,
+    currency: string,
+    startBucket: number,
+    endBucket: number
+  ): Promise<PricePoint[]> {
+    const db = await openDatabase(this.dbName);
+    const store = db.transaction(PRICES_STORE, "readonly").objectStore(PRICES_STORE);
+    const range = IDBKeyRange.bound(
+      [provider, symbol.toUpperCase(), currency.toUpperCase(), startBucket],
+      [provider, symbol.toUpperCase(), currency.toUpperCase(), endBucket]
+    );
+    const records = await promisify(store.getAll(range) as IDBRequest<PriceCacheRecord[]>);
+    return records.map((record) => ({ timestamp: record.bucket, price: record.price }));
+  }
+
+  async putMany(provider: string, symbol: string, currency: string, points: PricePoint[]): Promise<void> {
+    if (points.length === 0) {
+      return;
+    }
+    const db = await openDatabase(this.dbName);
+    const transaction = db.transaction(PRICES_STORE, "readwrite");
+    const store = transaction.objectStore(PRICES_STORE);
+    for (const point of points) {
+      const record: PriceCacheRecord = {
+        provider,
+        symbol: symbol.toUpperCase(),
+        currency: currency.toUpperCase(),
+        bucket: point.timestamp,
+        price: point.price,
+      };
+      store.put(record);
+    }
+    await transactionDone(transaction);
+  }
+
+  async stats(): Promise<PriceCacheStats> {
+    const db = await openDatabase(this.dbName);
+    const store = db.transaction(PRICES_STORE, "readonly").objectStore(PRICES_STORE);
+    const records = await promisify(store.getAll() as IDBRequest<PriceCacheRecord[]>);
+
+    const pairs = new Set<string>();
+    let oldest: number | null = null;
+    let newest: number | null = null;
+    for (const record of records) {
+      pairs.add(`${record.provider} ${record.symbol}/${record.currency}`);
+      oldest = oldest === null ? record.bucket : Math.min(oldest, record.bucket);
+      newest = newest === null ? record.bucket : Math.max(newest, record.bucket);
+    }
+
+    return { entries: records.length, pairs: [...pairs].sort(), oldest, newest };
+  }
+
+  async clear(): Promise<void> {
+    const db = await openDatabase(this.dbName);
+    const transaction = db.transaction(PRICES_STORE, "readwrite");
+    transaction.objectStore(PRICES_STORE).clear();
+    await transactionDone(transaction);
+  }
+}
@@ -0,0 +1,117 @@
+import { toTimestampMs } from "../utils";
+import type { PricePoint, PriceProvider, PriceQuery } from "./types";
+
+interface PriceRecord extends PricePoint {
+  symbol?: string;
+  currency?: string;
+}
+
+export interface PriceFileOptions {
+  /** How far before the query window a point may lie and still be used; defaults to one day */
+  maxGapMs?: number;
+}
+
+/**
+ * Parse CSV price data. A header row is required; recognised columns are
+ * timestamp (or time/date), price (or value/close) and the optional symbol and currency.
+ */
+function parseCsv(text: string): PriceRecord[] {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line && !line.startsWith("#"));
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const header = lines[0].split(",").map((column) => column.trim().toLowerCase());
+  const column = (...names: string[]) => header.findIndex((name) => names.includes(name));
+  const timestampIndex = column("timestamp", "time", "date");
+  const priceIndex = column("price", "value", "close");
+  const symbolIndex = column("symbol");
+  const currencyIndex = column("currency");
+  if (timestampIndex === -1 || priceIndex === -1) {
+    throw new Error("Price CSV needs a header with timestamp and price columns");
+  }
+
+  return lines.slice(1).map((line) => {
+    const cells = line.split(",").map((cell) => cell.trim());
+    return {
+      timestamp: toTimestampMs(cells[timestampIndex]),
+      price: parseFloat(cells[priceIndex]),
+      symbol: symbolIndex === -1 ? undefined : cells[symbolIndex],
+      currency: currencyIndex === -1 ? undefined : cells[currencyIndex],
+    };
+  });
+}
+
+/**
+ * Parse JSON price data: an array of { timestamp, price, symbol?, currency? } objects,
+ * an array of [timestamp, price] pairs, or a CoinGecko-style { prices: [[timestamp, price], ...] } export.
+ */
+function parseJson(text: string): PriceRecord[] {
+  const data = JSON.parse(text);
+  const rows = Array.isArray(data) ? data : data?.prices;
+  if (!Array.isArray(rows)) {
+    throw new Error("Price JSON must be an array or an object with a prices array");
+  }
+
+  return rows.map((row) => {
+    if (Array.isArray(row)) {
+      return { timestamp: toTimestampMs(row[0]), price: Number(row[1]) };
+    }
+    return {
+      timestamp: toTimestampMs(row.timestamp ?? row.time ?? row.date),
+      price: Number(row.price ?? row.value ?? row.close),
+      symbol: row.symbol,
+      currency: row.currency,
+    };
+  });
+}
+
+/**
+ * Prices from a local CSV or JSON price archive, for pricing gas offline
+ */
+export class PriceFileProvider implements PriceProvider {
+  readonly name = "Price file";
+
+  private readonly records: PriceRecord[];
+  private readonly maxGapMs: number;
+
+  constructor(records: PriceRecord[], options: PriceFileOptions = {}) {
+    this.records = records
+      .filter((record) => record.timestamp !== undefined && !Number.isNaN(record.price))
+      .sort((a, b) => a.timestamp - b.timestamp);
+    this.maxGapMs = options.maxGapMs ?? 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Build a provider from file contents; the format is inferred from the first character unless given
+   */
+  static fromText(text: string, format?: "csv" | "json", options?: PriceFileOptions): PriceFileProvider {
+    const resolvedFormat = format ?? (/^\s*[[{]/.test(text) ? "json" : "csv");
+    const records = resolvedFormat === "json" ? parseJson(text) : parseCsv(text);
+    return new PriceFileProvider(records, options);
+  }
+
+  get size(): number {
+    return this.records.length;
+  }
+
+  async fetchPrices({ symbol, currency, startTime, endTime }: PriceQuery): Promise<PricePoint[]> {
+    const matching = this.records.filter(
+      (record) =>
+        (!record.symbol || record.symbol.toUpperCase() === symbol.toUpperCase()) &&
+        (!record.currency || record.currency.toUpperCase() === currency.toUpperCase())
+    );
+
+    const inRange = matching.filter((record) => record.timestamp >= startTime && record.timestamp < endTime);
+    // Sparse archives (e.g. daily closes) fall back to the latest point shortly before the window
+    if (inRange.length === 0) {
+      const previous = matching.filter(
+        (record) => record.timestamp < startTime && startTime - record.timestamp <= this.maxGapMs
+      );
+      const latest = previous[previous.length - 1];
+      return latest ? [{ timestamp: latest.timestamp, price: latest.price }] : [];
+    }
+
+    return inRange.map((record) => ({ timestamp: record.timestamp, price: record.price }));
+  }
+}
@@ -0,0 +1,202 @@
+import type { Diagnostics } from "../diagnostics";
+import { scheduled, type RequestScheduler } from "../scheduler";
+import type { PriceCache } from "./price-cache";
+import type { PricePoint, PriceProvider, PriceQuery } from "./types";
+
+export const HOUR_MS = 60 * 60 * 1000;
+
+/** Start of the UTC hour containing the timestamp, in epoch milliseconds */
+export function toHourBucket(timestamp: number): number {
+  return Math.floor(timestamp / HOUR_MS) * HOUR_MS;
+}
+
+/**
+ * In-memory table of prices keyed by hour bucket
+ */
+export class PriceTable {
+  private readonly buckets = new Map<number, number>();
+  private sortedKeys: number[] | null = null;
+
+  get size(): number {
+    return this.buckets.size;
+  }
+
+  /** Record a price; the first point seen for an hour wins */
+  set(timestamp: number, price: number): void {
+    const bucket = toHourBucket(timestamp);
+    if (!this.buckets.has(bucket)) {
+      this.buckets.set(bucket, price);
+      this.sortedKeys = null;
+    }
+  }
+
+  has(timestamp: number): boolean {
+    return this.buckets.has(toHourBucket(timestamp));
+  }
+
+  /**
+   * Price for the hour containing the timestamp. When that hour is missing, the closest earlier
+   * hour is used, then the closest later one, as long as it lies within maxGapMs.
+   */
+  lookup(timestamp: number, maxGapMs = 24 * HOUR_MS): number | null {
+    const bucket = toHourBucket(timestamp);
+    const exact = this.buckets.get(bucket);
+    if (exact !== undefined) {
+      return exact;
+    }
+
+    const keys = this.keys();
+    // Index of the first key greater than the bucket
+    let low = 0;
+    let high = keys.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (keys[mid] <= bucket) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    const before = low > 0 ? keys[low - 1] : undefined;
+    if (before !== undefined && bucket - before <= maxGapMs) {
+      return this.buckets.get(before);
+    }
+    const after = low < keys.length ? keys[low] : undefined;
+    if (after !== undefined && after - bucket <= maxGapMs) {
+      return this.buckets.get(after);
+    }
+    return null;
+  }
+
+  private keys(): number[] {
+    if (!this.sortedKeys) {
+      this.sortedKeys = [...this.buckets.keys()].sort((a, b) => a - b);
+    }
+    return this.sortedKeys;
+  }
+}
+
+/**
+ * Split [startTime, endTime) into consecutive windows no longer than maxRangeMs
+ */
+export function splitRange(startTime: number, endTime: number, maxRangeMs: number): [number, number][] {
+  const windows: [number, number][] = [];
+  for (let start = startTime; start < endTime; start += maxRangeMs) {
+    windows.push([start, Math.min(endTime, start + maxRangeMs)]);
+  }
+  return windows;
+}
+
+/**
+ * Group the hour buckets of [startTime, endTime) that are missing from the table into fetch windows.
+ * Runs of missing hours separated by less than a day of cached hours are merged into one window,
+ * since one slightly larger request is cheaper than several small ones.
+ */
+function missingWindows(table: PriceTable, startTime: number, endTime: number): [number, number][] {
+  const windows: [number, number][] = [];
+  for (let bucket = startTime; bucket < endTime; bucket += HOUR_MS) {
+    if (table.has(bucket)) {
+      continue;
+    }
+    const last = windows[windows.length - 1];
+    if (last && bucket - last[1] < 24 * HOUR_MS) {
+      last[1] = bucket + HOUR_MS;
+    } else {
+      windows.push([bucket, bucket + HOUR_MS]);
+    }
+  }
+  return windows;
+}
+
+export interface LoadPriceTableOptions {
+  cache?: PriceCache;
+  scheduler?: RequestScheduler;
+  /** When aborted, the table is returned with whatever was loaded so far */
+  signal?: AbortSignal;
+  diagnostics?: Diagnostics;
+  /** Called after the cache read and after every fetch window settles, successful or not */
+  onWindowLoaded?: (loaded: number, total: number, pricesResolved: number) => void;
+}
+
+/**
+ * Fetch every price for the query window in as few requests as the provider allows
+ * and index them by hour. Hours already in the cache are not fetched again, and newly
+ * fetched completed hours are written back. Failed windows are recorded as diagnostics and left empty.
+ */
+export async function loadPriceTable(
+  provider: PriceProvider,
+  query: PriceQuery,
+  options: LoadPriceTableOptions = {}
+): Promise<PriceTable> {
+  const { cache, scheduler, signal, diagnostics, onWindowLoaded } = options;
+  const table = new PriceTable();
+  const startTime = toHourBucket(query.startTime);
+  const endTime = toHourBucket(query.endTime) + HOUR_MS;
+
+  if (cache) {
+    try {
+      const cached = await cache.getRange(provider.name, query.symbol, query.currency, startTime, endTime - HOUR_MS);
+      for (const point of cached) {
+        table.set(point.timestamp, point.price);
+      }
+    } catch (error) {
+      diagnostics?.add({
+        kind: "failed-request",
+        source: "Price cache",
+        message: `${error.message}; every price is fetched from ${provider.name}`,
+        subject: `${query.symbol}/${query.currency}`,
+      });
+    }
+  }
+
+  const windows = missingWindows(table, startTime, endTime).flatMap(([windowStart, windowEnd]) =>
+    splitRange(windowStart, windowEnd, provider.maxRangeMs ?? windowEnd - windowStart)
+  );
+  // Only completed hours are final and safe to cache
+  const currentHour = toHourBucket(Date.now());
+  let loaded = 0;
+  onWindowLoaded?.(loaded, windows.length, table.size);
+
+  // Windows are requested concurrently; the scheduler bounds how many are in flight
+  await Promise.all(
+    windows.map(async ([windowStart, windowEnd]) => {
+      const label = `${provider.name} prices from ${new Date(windowStart).toISOString()}`;
+      try {
+        const points = await scheduled(scheduler, label, () =>
+          provider.fetchPrices({ ...query, startTime: windowStart, endTime: windowEnd }, { signal, diagnostics })
+        );
+        const fresh: PricePoint[] = [];
+        for (const point of points) {
+          const bucket = toHourBucket(point.timestamp);
+          if (!table.has(bucket)) {
+            table.set(bucket, point.price);
+            if (bucket < currentHour) {
+              fresh.push({ timestamp: bucket, price: point.price });
+            }
+          }
+        }
+        await cache?.putMany(provider.name, query.symbol, query.currency, fresh).catch((error) => {
+          diagnostics?.add({
+            kind: "failed-request",
+            source: "Price cache",
+            message: `${error.message}; these prices are fetched again on the next analysis`,
+            subject: label,
+          });
+        });
+      } catch (error) {
+        if (!signal?.aborted) {
+          diagnostics?.add({
+            kind: "failed-request",
+            source: `${provider.name} prices`,
+            message: `${error.message}; transactions in this window fall back to the last known price or are skipped`,
+            subject: label,
+          });
+        }
+      }
+      onWindowLoaded?.(++loaded, windows.length, table.size);
+    })
+  );
+
+  return table;
+}
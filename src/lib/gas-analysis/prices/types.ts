@@ -0,0 +1,35 @@
+import type { Diagnostics } from "../diagnostics";
+
+export interface PricePoint {
+  /** Epoch milliseconds */
+  timestamp: number;
+  price: number;
+}
+
+export interface PriceQuery {
+  /** Native token symbol, e.g. "ETH" */
+  symbol: string;
+  /** Quote currency, e.g. "USD" */
+  currency: string;
+  /** Epoch milliseconds, inclusive */
+  startTime: number;
+  /** Epoch milliseconds, exclusive */
+  endTime: number;
+}
+
+export interface PriceFetchOptions {
+  signal?: AbortSignal;
+  /** Receives rows and responses that fail schema validation */
+  diagnostics?: Diagnostics;
+}
+
+/**
+ * Source of historical native-token prices
+ */
+export interface PriceProvider {
+  readonly name: string;
+  /** Longest window a single fetchPrices call may cover; unlimited when undefined */
+  readonly maxRangeMs?: number;
+  /** Price points inside the query window, oldest first */
+  fetchPrices(query: PriceQuery, options?: PriceFetchOptions): Promise<PricePoint[]>;
+}
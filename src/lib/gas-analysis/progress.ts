@@ -0,0 +1,128 @@
+export type AnalysisPhase = "starting" | "history" | "prices" | "processing" | "done" | "cancelled" | "error";
+
+/**
+ * Snapshot of an analysis in progress, emitted through onProgress
+ */
+export interface AnalysisProgress {
+  phase: AnalysisPhase;
+  /** New activity log line, present only on snapshots that add one */
+  message?: string;
+  pagesFetched: number;
+  transactionsFetched: number;
+  transactionsProcessed: number;
+  transactionsTotal: number;
+  priceWindowsLoaded: number;
+  priceWindowsTotal: number;
+  /** Hourly prices available for lookup so far */
+  pricesResolved: number;
+  /** Overall completion, 0-100 */
+  percent: number;
+  /** Estimated time left; null while the remaining work is unknown (history pagination) */
+  etaMs: number | null;
+  elapsedMs: number;
+}
+
+export type ProgressCallback = (progress: AnalysisProgress) => void;
+
+/** Share of the progress bar given to each phase; history pagination has no known total */
+const PHASE_RANGES: Record<"history" | "prices" | "processing", [number, number]> = {
+  history: [0, 30],
+  prices: [30, 90],
+  processing: [90, 100],
+};
+
+/**
+ * Accumulates counters for one analysis and turns them into AnalysisProgress snapshots
+ */
+export class ProgressTracker {
+  private readonly state: Omit<AnalysisProgress, "message" | "percent" | "etaMs" | "elapsedMs"> = {
+    phase: "starting",
+    pagesFetched: 0,
+    transactionsFetched: 0,
+    transactionsProcessed: 0,
+    transactionsTotal: 0,
+    priceWindowsLoaded: 0,
+    priceWindowsTotal: 0,
+    pricesResolved: 0,
+  };
+  private readonly startedAt = Date.now();
+  private phaseStartedAt = Date.now();
+  private lastPercent = 0;
+
+  constructor(private readonly onProgress?: ProgressCallback) {}
+
+  setPhase(phase: AnalysisPhase, message?: string) {
+    this.state.phase = phase;
+    this.phaseStartedAt = Date.now();
+    this.emit(message);
+  }
+
+  log(message: string) {
+    this.emit(message);
+  }
+
+  pageFetched(transactions: number) {
+    this.state.pagesFetched++;
+    this.state.transactionsFetched += transactions;
+    this.emit(`Fetched page ${this.state.pagesFetched} (${this.state.transactionsFetched.toLocaleString()} transactions)`);
+  }
+
+  priceWindows(loaded: number, total: number, pricesResolved: number) {
+    this.state.priceWindowsLoaded = loaded;
+    this.state.priceWindowsTotal = total;
+    this.state.pricesResolved = pricesResolved;
+    this.emit();
+  }
+
+  processed(processed: number, total: number) {
+    this.state.transactionsProcessed = processed;
+    this.state.transactionsTotal = total;
+    this.emit();
+  }
+
+  private emit(message?: string) {
+    if (!this.onProgress) {
+      return;
+    }
+    const now = Date.now();
+    const fraction = this.phaseFraction();
+    // Cancelled and failed analyses keep the bar where they stopped
+    let percent = this.lastPercent;
+    let etaMs: number | null = null;
+
+    if (this.state.phase === "done") {
+      percent = 100;
+      etaMs = 0;
+    } else if (this.state.phase in PHASE_RANGES) {
+      const [from, to] = PHASE_RANGES[this.state.phase as keyof typeof PHASE_RANGES];
+      percent = from + (to - from) * fraction;
+      if (this.state.phase !== "history" && fraction > 0) {
+        const phaseElapsed = now - this.phaseStartedAt;
+        etaMs = Math.round((phaseElapsed / fraction) * (1 - fraction));
+      }
+    }
+    this.lastPercent = percent;
+
+    this.onProgress({
+      ...this.state,
+      message,
+      percent: Math.round(percent),
+      etaMs,
+      elapsedMs: now - this.startedAt,
+    });
+  }
+
+  private phaseFraction(): number {
+    switch (this.state.phase) {
+      case "history":
+        // Unknown page count: approach the end of the range without reaching it
+        return 1 - 1 / (1 + this.state.pagesFetched / 10);
+      case "prices":
+        return this.state.priceWindowsTotal > 0 ? this.state.priceWindowsLoaded / this.state.priceWindowsTotal : 0;
+      case "processing":
+        return this.state.transactionsTotal > 0 ? this.state.transactionsProcessed / this.state.transactionsTotal : 0;
+      default:
+        return 0;
+    }
+  }
+}
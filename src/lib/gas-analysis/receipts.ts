@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { parseRows, type Diagnostics } from "./diagnostics";
+import { rpcBatch } from "./rpc";
+import { scheduled, type RequestScheduler } from "./scheduler";
+import { hashSchema, quantitySchema } from "./schemas";
+import type { Transaction } from "./types";
+
+/** Receipts requested per JSON-RPC batch */
+const RECEIPT_BATCH_SIZE = 50;
+
+const receiptSchema = z.object({
+  transactionHash: hashSchema,
+  gasUsed: quantitySchema,
+  effectiveGasPrice: quantitySchema.nullish(),
+  /** 1 on success, 0 when reverted; absent before Byzantium */
+  status: quantitySchema.nullish(),
+  /** OP-stack L1 data fee in wei */
+  l1Fee: quantitySchema.nullish(),
+  /** Arbitrum gas units charged for posting calldata to L1 */
+  gasUsedForL1: quantitySchema.nullish(),
+  /** EIP-4844 blob gas, only present on type-3 transactions */
+  blobGasUsed: quantitySchema.nullish(),
+  blobGasPrice: quantitySchema.nullish(),
+});
+
+export type Receipt = z.infer<typeof receiptSchema>;
+
+/**
+ * Fetch receipts in one JSON-RPC batch, keyed by lowercased transaction hash.
+ * Unknown transactions (null receipts) and malformed receipts are left out.
+ */
+export async function fetchReceipts(
+  rpcUrl: string,
+  hashes: string[],
+  options: { signal?: AbortSignal; diagnostics?: Diagnostics; source?: string } = {}
+): Promise<Map<string, Receipt>> {
+  const raw = await rpcBatch<unknown>(
+    rpcUrl,
+    hashes.map((hash) => ({ method: "eth_getTransactionReceipt", params: [hash] })),
+    options.signal,
+    options.diagnostics
+  );
+  const receipts = parseRows(
+    receiptSchema.nullable(),
+    raw,
+    options.source ?? "JSON-RPC receipt",
+    options.diagnostics,
+    (_receipt, index) => hashes[index]
+  ).filter((receipt) => receipt !== null);
+  return new Map(receipts.map((receipt) => [receipt.transactionHash.toLowerCase(), receipt]));
+}
+
+/**
+ * Copy the fee fields of a receipt onto a transaction
+ */
+export function applyReceipt(tx: Transaction, receipt: Receipt): Transaction {
+  return {
+    ...tx,
+    gasUsed: receipt.gasUsed,
+    effectiveGasPrice: receipt.effectiveGasPrice ?? tx.effectiveGasPrice,
+    l1Fee: receipt.l1Fee ?? undefined,
+    gasUsedForL1: receipt.gasUsedForL1 ?? undefined,
+    blobGasUsed: receipt.blobGasUsed ?? undefined,
+    blobGasPrice: receipt.blobGasPrice ?? undefined,
+    failed: receipt.status === undefined || receipt.status === null ? tx.failed : receipt.status === "0",
+    hasReceipt: true,
+  };
+}
+
+export interface EnrichReceiptsOptions {
+  scheduler?: RequestScheduler;
+  signal?: AbortSignal;
+  diagnostics?: Diagnostics;
+  onLog?: (message: string) => void;
+}
+
+/**
+ * Fill in receipt-only fields (the OP-stack l1Fee, Arbitrum gasUsedForL1, blob gas) for transactions whose history
+ * provider did not supply a receipt. Failed batches are recorded as diagnostics and their transactions left as they were.
+ */
+export async function enrichWithReceipts(
+  rpcUrl: string,
+  transactions: Transaction[],
+  options: EnrichReceiptsOptions = {}
+): Promise<Transaction[]> {
+  const { scheduler, signal, diagnostics, onLog } = options;
+  const missing = transactions.filter((tx) => !tx.hasReceipt);
+  if (missing.length === 0) {
+    return transactions;
+  }
+
+  onLog?.(`Fetching ${missing.length.toLocaleString()} transaction receipts...`);
+  const receipts = new Map<string, Receipt>();
+  const batches: string[][] = [];
+  for (let i = 0; i < missing.length; i += RECEIPT_BATCH_SIZE) {
+    batches.push(missing.slice(i, i + RECEIPT_BATCH_SIZE).map((tx) => tx.hash));
+  }
+
+  await Promise.all(
+    batches.map(async (hashes, index) => {
+      const label = `Receipts batch ${index + 1}/${batches.length}`;
+      try {
+        const batch = await scheduled(scheduler, label, () => fetchReceipts(rpcUrl, hashes, { signal, diagnostics }));
+        for (const [hash, receipt] of batch) {
+          receipts.set(hash, receipt);
+        }
+      } catch (error) {
+        if (!signal?.aborted) {
+          diagnostics?.add({
+            kind: "failed-request",
+            source: "JSON-RPC receipt",
+            message: `${error.message}; these transactions lack receipt fee components`,
+            subject: label,
+          });
+        }
+      }
+    })
+  );
+  signal?.throwIfAborted();
+
+  return transactions.map((tx) => {
+    const receipt = receipts.get(tx.hash.toLowerCase());
+    return receipt ? applyReceipt(tx, receipt) : tx;
+  });
+}
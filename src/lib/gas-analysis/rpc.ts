@@ -0,0 +1,111 @@
+import { z } from "zod";
+import { parseResponse, parseRows, type Diagnostics } from "./diagnostics";
+import { JsonRpcError } from "./errors";
+import { HttpError } from "./scheduler";
+
+export interface JsonRpcCall {
+  method: string;
+  params: unknown[];
+}
+
+const SOURCE = "JSON-RPC";
+
+const jsonRpcResponseSchema = z.object({
+  id: z.union([z.number(), z.string()]).transform(Number),
+  result: z.unknown().optional(),
+  error: z.object({ code: z.number(), message: z.string() }).optional(),
+});
+
+let nextId = 1;
+
+async function postJson(url: string, body: unknown, signal?: AbortSignal): Promise<unknown> {
+  const response = await fetch(url, {
+    method: "POST",
+    signal,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw HttpError.fromResponse(response, "JSON-RPC request failed");
+  }
+
+  return response.json();
+}
+
+/**
+ * Send a single JSON-RPC request and return its result
+ */
+export async function rpcRequest<T>(
+  url: string,
+  method: string,
+  params: unknown[] = [],
+  signal?: AbortSignal,
+  diagnostics?: Diagnostics
+): Promise<T> {
+  const payload = parseResponse(
+    jsonRpcResponseSchema,
+    await postJson(url, { jsonrpc: "2.0", id: nextId++, method, params }, signal),
+    `${SOURCE} ${method}`,
+    diagnostics
+  );
+  if (payload.error) {
+    throw new JsonRpcError(method, payload.error.code, payload.error.message);
+  }
+  return payload.result as T;
+}
+
+/**
+ * Send several JSON-RPC requests in one batch; results are returned in call order.
+ * Calls that failed or are missing from the response are recorded as diagnostics and come back as null,
+ * so one bad entry does not cost the rest of the batch.
+ */
+export async function rpcBatch<T>(
+  url: string,
+  calls: JsonRpcCall[],
+  signal?: AbortSignal,
+  diagnostics?: Diagnostics
+): Promise<(T | null)[]> {
+  if (calls.length === 0) {
+    return [];
+  }
+
+  const firstId = nextId;
+  nextId += calls.length;
+  const payload = await postJson(
+    url,
+    calls.map((call, index) => ({ jsonrpc: "2.0", id: firstId + index, method: call.method, params: call.params })),
+    signal
+  );
+
+  // Some servers answer a rejected batch with a single error object
+  const rejected = jsonRpcResponseSchema.safeParse(payload);
+  if (rejected.success && rejected.data.error) {
+    throw new Error(`JSON-RPC batch failed: ${rejected.data.error.message}`);
+  }
+
+  const entries = parseRows(
+    jsonRpcResponseSchema,
+    parseResponse(z.array(z.unknown()), payload, `${SOURCE} batch`, diagnostics),
+    `${SOURCE} batch`,
+    diagnostics,
+    (_entry, index) => `entry ${index}`
+  );
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+  return calls.map((call, index) => {
+    const entry = byId.get(firstId + index);
+    const problem = !entry ? "Missing from batch response" : entry.error ? entry.error.message : undefined;
+    if (problem) {
+      diagnostics?.add({
+        kind: "invalid-row",
+        source: `${SOURCE} ${call.method}`,
+        message: problem,
+        subject: call.params.length > 0 ? JSON.stringify(call.params) : undefined,
+      });
+      return null;
+    }
+    return (entry.result ?? null) as T | null;
+  });
+}
@@ -0,0 +1,219 @@
+/**
+ * HTTP failure surfaced by fetch-based provider calls, carrying what the scheduler needs to decide on a retry
+ */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+
+  static fromResponse(response: Response, message: string): HttpError {
+    return new HttpError(
+      `${message}: ${response.status}`,
+      response.status,
+      parseRetryAfter(response.headers.get("retry-after"))
+    );
+  }
+}
+
+/** Parse a Retry-After header given either in seconds or as an HTTP date */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+(\.\d+)?$/.test(value.trim())) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+interface RetryInfo {
+  retryable: boolean;
+  status?: number;
+  retryAfterMs?: number;
+}
+
+/**
+ * Classify a failure from fetch (HttpError, network TypeError) or axios (error.response)
+ */
+function retryInfo(error): RetryInfo {
+  if (error instanceof HttpError) {
+    return {
+      retryable: error.status === 429 || error.status >= 500,
+      status: error.status,
+      retryAfterMs: error.retryAfterMs,
+    };
+  }
+  if (error?.isAxiosError) {
+    const status: number | undefined = error.response?.status;
+    if (status === undefined) {
+      // No response at all: network failure or timeout
+      return { retryable: true };
+    }
+    return {
+      retryable: status === 429 || status >= 500,
+      status,
+      retryAfterMs: parseRetryAfter(error.response.headers?.["retry-after"]),
+    };
+  }
+  // fetch rejects with a TypeError when the network request itself fails
+  return { retryable: error instanceof TypeError };
+}
+
+export interface SchedulerOptions {
+  /** Maximum number of requests in flight at once */
+  concurrency?: number;
+  /** Retries per request after the first attempt */
+  maxRetries?: number;
+  /** Backoff before the first retry; doubled on every further attempt */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay, including Retry-After */
+  maxDelayMs?: number;
+  /** Called before each backoff wait; retries are also counted in stats() */
+  onRetry?: (retry: { label: string; attempt: number; status?: number; delayMs: number }) => void;
+}
+
+export interface RetriedRequest {
+  label: string;
+  retries: number;
+  /** HTTP status of the last failed attempt, when there was one */
+  lastStatus?: number;
+  succeeded: boolean;
+}
+
+export interface RequestStats {
+  requests: number;
+  retries: number;
+  failures: number;
+  /** Requests that needed at least one retry */
+  retriedRequests: RetriedRequest[];
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs provider requests with a concurrency limit, retrying 429 and 5xx responses
+ * with exponential backoff and jitter, honouring Retry-After when the server sends it.
+ */
+export class RequestScheduler {
+  private readonly concurrency: number;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly onRetry?: SchedulerOptions["onRetry"];
+
+  private active = 0;
+  private readonly queue: (() => void)[] = [];
+  private readonly counters: RequestStats = { requests: 0, retries: 0, failures: 0, retriedRequests: [] };
+
+  /**
+   * @param signal - Aborts queued requests and pending backoff waits; in-flight requests
+   *   are aborted through the same signal by the providers themselves
+   */
+  constructor(options: SchedulerOptions = {}, private readonly signal?: AbortSignal) {
+    this.concurrency = Math.max(1, options.concurrency ?? 4);
+    this.maxRetries = options.maxRetries ?? 5;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.onRetry = options.onRetry;
+  }
+
+  /**
+   * Run the task once a slot is free, retrying retryable failures.
+   * The label identifies the request in the retry statistics.
+   */
+  async schedule<T>(label: string, task: () => Promise<T>): Promise<T> {
+    this.signal?.throwIfAborted();
+    this.counters.requests++;
+    let retries = 0;
+    let lastStatus: number | undefined;
+
+    for (;;) {
+      try {
+        const result = await this.withSlot(task);
+        this.recordRetries(label, retries, lastStatus, true);
+        return result;
+      } catch (error) {
+        if (this.signal?.aborted) {
+          throw error;
+        }
+        const info = retryInfo(error);
+        lastStatus = info.status ?? lastStatus;
+        if (!info.retryable || retries >= this.maxRetries) {
+          this.counters.failures++;
+          this.recordRetries(label, retries, lastStatus, false);
+          throw error;
+        }
+        retries++;
+        this.counters.retries++;
+        const delay = this.backoff(retries, info.retryAfterMs);
+        this.onRetry?.({ label, attempt: retries, status: info.status, delayMs: delay });
+        // The slot is released while waiting so other requests can proceed
+        await sleep(delay, this.signal);
+      }
+    }
+  }
+
+  stats(): RequestStats {
+    return { ...this.counters, retriedRequests: [...this.counters.retriedRequests] };
+  }
+
+  private backoff(attempt: number, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) {
+      return Math.min(this.maxDelayMs, retryAfterMs);
+    }
+    const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (attempt - 1));
+    // Equal jitter: half fixed, half random, so synchronized clients spread out
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  private recordRetries(label: string, retries: number, lastStatus: number | undefined, succeeded: boolean) {
+    if (retries > 0) {
+      this.counters.retriedRequests.push({ label, retries, lastStatus, succeeded });
+    }
+  }
+
+  private async withSlot<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.concurrency) {
+      // The finishing request hands its slot over directly, so active stays unchanged
+      await new Promise<void>((resolve) => this.queue.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      this.signal?.throwIfAborted();
+      return await task();
+    } finally {
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
+
+/**
+ * Run the task through the scheduler when one is given, otherwise call it directly
+ */
+export function scheduled<T>(scheduler: RequestScheduler | undefined, label: string, task: () => Promise<T>): Promise<T> {
+  return scheduler ? scheduler.schedule(label, task) : task();
+}
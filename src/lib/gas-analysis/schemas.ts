@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { toDecimalString, toTimestampMs } from "./utils";
+
+/** Non-negative integer given as a hex quantity, decimal string or number, normalized to a decimal string */
+export const quantitySchema = z
+  .union([z.string().regex(/^(0x[0-9a-fA-F]+|\d+)$/, "Expected a hex or decimal quantity"), z.number().int().nonnegative()])
+  .transform((value) => toDecimalString(value));
+
+/** Block timestamp in any format toTimestampMs accepts, normalized to epoch milliseconds */
+export const timestampSchema = z.union([z.string(), z.number()]).transform((value, ctx) => {
+  const timestamp = toTimestampMs(value);
+  if (timestamp === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid timestamp ${value}` });
+    return z.NEVER;
+  }
+  return timestamp;
+});
+
+export const hashSchema = z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Expected a 32-byte hex hash");
+
+export const addressSchema = z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Expected a 20-byte hex address");
+
+/** Arbitrary-length byte string, such as eth_call return data */
+export const hexDataSchema = z.string().regex(/^0x([0-9a-fA-F]{2})*$/, "Expected 0x-prefixed hex bytes");
+
+/** Price given as a number or numeric string */
+export const priceSchema = z.union([z.number(), z.string()]).pipe(z.coerce.number().finite().nonnegative());
@@ -0,0 +1,113 @@
+import { keccak_256 } from "@noble/hashes/sha3";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+import { FOUR_BYTE_SIGNATURES } from "./four-byte-signatures";
+
+/** Matches returned by SignatureDatabase.search */
+const MAX_SEARCH_RESULTS = 20;
+
+interface AbiParameter {
+  type: string;
+  components?: AbiParameter[];
+}
+
+interface AbiFunction {
+  type?: string;
+  name?: string;
+  inputs?: AbiParameter[];
+}
+
+/** 4-byte selector of a canonical function signature such as "transfer(address,uint256)" */
+export function selectorOf(signature: string): string {
+  return `0x${bytesToHex(keccak_256(utf8ToBytes(signature))).slice(0, 8)}`;
+}
+
+/**
+ * Selector of a transaction's input data: "0x" for plain transfers without calldata,
+ * undefined when the input is missing or not hex
+ */
+export function methodSelectorOf(input: string | null | undefined): string | undefined {
+  if (!input || !/^0x[0-9a-fA-F]*$/.test(input)) {
+    return undefined;
+  }
+  return input.length >= 10 ? input.slice(0, 10).toLowerCase() : "0x";
+}
+
+/** Function name of a signature, e.g. "transfer" for "transfer(address,uint256)" */
+export function methodName(signature: string): string {
+  return signature.slice(0, signature.indexOf("("));
+}
+
+/** Canonical ABI type, with tuples expanded into their component types */
+function canonicalType(parameter: AbiParameter): string {
+  if (parameter.type.startsWith("tuple")) {
+    const components = (parameter.components ?? []).map(canonicalType).join(",");
+    return `(${components})${parameter.type.slice("tuple".length)}`;
+  }
+  return parameter.type;
+}
+
+/**
+ * Selector-to-signature lookup over the bundled dataset, extendable with contract ABIs.
+ * Signatures from added ABIs take precedence over bundled ones with the same selector.
+ */
+export class SignatureDatabase {
+  private readonly signatures: Map<string, string>;
+
+  constructor(entries: Record<string, string> = FOUR_BYTE_SIGNATURES) {
+    this.signatures = new Map(Object.entries(entries));
+  }
+
+  /**
+   * Add the functions of a JSON ABI, given either as the ABI array or as a compiler artifact
+   * with an "abi" field. Returns the number of functions added.
+   */
+  addAbi(abiText: string): number {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(abiText);
+    } catch (error) {
+      throw new Error(`Invalid ABI JSON: ${error.message}`);
+    }
+    const abi = Array.isArray(parsed) ? parsed : (parsed as { abi?: unknown } | null)?.abi;
+    if (!Array.isArray(abi)) {
+      throw new Error("ABI must be a JSON array or an object with an abi array");
+    }
+
+    let added = 0;
+    for (const entry of abi as AbiFunction[]) {
+      if (entry?.type !== "function" || !entry.name) {
+        continue;
+      }
+      const signature = `${entry.name}(${(entry.inputs ?? []).map(canonicalType).join(",")})`;
+      this.signatures.set(selectorOf(signature), signature);
+      added++;
+    }
+    return added;
+  }
+
+  lookup(selector: string): string | undefined {
+    return this.signatures.get(selector.toLowerCase());
+  }
+
+  /** Entries whose selector starts with, or whose signature contains, the query (case-insensitive) */
+  search(query: string): { selector: string; signature: string }[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+      return [];
+    }
+    const matches: { selector: string; signature: string }[] = [];
+    for (const [selector, signature] of this.signatures) {
+      if (selector.startsWith(needle) || signature.toLowerCase().includes(needle)) {
+        matches.push({ selector, signature });
+        if (matches.length === MAX_SEARCH_RESULTS) {
+          break;
+        }
+      }
+    }
+    return matches;
+  }
+
+  get size(): number {
+    return this.signatures.size;
+  }
+}
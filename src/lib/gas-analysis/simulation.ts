@@ -0,0 +1,106 @@
+import { MEDIAN_REWARD_INDEX } from "./fee-history";
+import type { TxCost } from "./types";
+import { gweiToWei, weiToNative } from "./utils";
+
+/** Alternative fee strategies the wallet's history can be replayed under */
+export type FeeScenario =
+  | { kind: "median-tip" }
+  | { kind: "delay"; hours: number }
+  | { kind: "gas-price-cap"; gwei: number };
+
+export type FeeScenarioKind = FeeScenario["kind"];
+
+export interface FeeSimulation {
+  scenario: FeeScenario;
+  /** Transactions whose gas price the scenario could be applied to */
+  simulated: number;
+  /** Capped transactions whose block base fee was above the cap, so they could not have been included then */
+  priceExcluded: number;
+  actualETH: number;
+  actualUSD: number;
+  /** Actual costs, with the execution fee of every simulated transaction replaced */
+  simulatedETH: number;
+  simulatedUSD: number;
+  /** actual minus simulated; negative when the scenario would have cost more */
+  savingsETH: number;
+  savingsUSD: number;
+}
+
+/**
+ * Replay the wallet's fees under a scenario. Only transactions the wallet sent and priced itself are
+ * simulated; L1 data and blob fees, user operations and fees paid by others are kept as they were.
+ * On Arbitrum the gasUsedForL1 share of gasUsed is not repriced either, since the L1 cost it buys is fixed.
+ * Costs stay at each transaction's own native token price.
+ *
+ * - median-tip pays the base fee plus the block's median priority fee, so tips below the median cost more
+ * - delay waits up to `hours` (at most LATER_BASE_FEE_HOURS) for the cheapest hour, keeping the tip, using the
+ *   base fees sampled after each transaction; transactions without samples are not simulated
+ * - gas-price-cap pays at most `gwei` per gas; transactions whose block base fee exceeded the cap are
+ *   counted in priceExcluded and kept at their actual cost
+ */
+export function simulateFees(transactionCosts: TxCost[], scenario: FeeScenario): FeeSimulation {
+  const capWei = scenario.kind === "gas-price-cap" ? gweiToWei(scenario.gwei) : 0n;
+
+  const simulation: FeeSimulation = {
+    scenario,
+    simulated: 0,
+    priceExcluded: 0,
+    actualETH: 0,
+    actualUSD: 0,
+    simulatedETH: 0,
+    simulatedUSD: 0,
+    savingsETH: 0,
+    savingsUSD: 0,
+  };
+
+  /** Gas price the transaction would have paid, or undefined when the scenario does not apply */
+  const priceUnder = (tx: TxCost, gasPrice: bigint): bigint | undefined => {
+    switch (scenario.kind) {
+      case "median-tip":
+        if (!tx.baseFeePerGas || !tx.rewardPercentiles) {
+          return undefined;
+        }
+        return BigInt(tx.baseFeePerGas) + BigInt(tx.rewardPercentiles[MEDIAN_REWARD_INDEX]);
+      case "delay": {
+        if (!tx.baseFeePerGas || !tx.laterBaseFees) {
+          return undefined;
+        }
+        const baseFee = BigInt(tx.baseFeePerGas);
+        let cheapest = baseFee;
+        for (const sampled of tx.laterBaseFees.slice(0, scenario.hours)) {
+          if (sampled !== null && BigInt(sampled) < cheapest) {
+            cheapest = BigInt(sampled);
+          }
+        }
+        return gasPrice - baseFee + cheapest;
+      }
+      case "gas-price-cap":
+        if (tx.baseFeePerGas && BigInt(tx.baseFeePerGas) > capWei) {
+          simulation.priceExcluded++;
+          return undefined;
+        }
+        return gasPrice < capWei ? gasPrice : capWei;
+    }
+  };
+
+  for (const tx of transactionCosts) {
+    simulation.actualETH += tx.costETH;
+    simulation.actualUSD += tx.costUSD;
+    const gasPrice = BigInt(tx.gasPrice);
+    const price = tx.outgoing && !tx.userOperation ? priceUnder(tx, gasPrice) : undefined;
+    if (price === undefined) {
+      simulation.simulatedETH += tx.costETH;
+      simulation.simulatedUSD += tx.costUSD;
+      continue;
+    }
+    const executionGas = BigInt(tx.gasUsed) - BigInt(tx.gasUsedForL1 ?? 0);
+    const savingsETH = weiToNative((gasPrice - price) * executionGas);
+    simulation.simulated++;
+    simulation.simulatedETH += tx.costETH - savingsETH;
+    simulation.simulatedUSD += (tx.costETH - savingsETH) * tx.ethPrice;
+  }
+
+  simulation.savingsETH = simulation.actualETH - simulation.simulatedETH;
+  simulation.savingsUSD = simulation.actualUSD - simulation.simulatedUSD;
+  return simulation;
+}
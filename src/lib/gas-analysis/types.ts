@@ -0,0 +1,245 @@
+import type { Diagnostic } from "./diagnostics";
+import type { RequestStats } from "./scheduler";
+
+/**
+ * Transaction as returned by a TransactionHistoryProvider.
+ * Only the fields the engine reads are typed; providers may pass through more.
+ */
+export interface Transaction {
+  hash: string;
+  blockNumber?: string;
+  /** Epoch milliseconds */
+  blockTimestamp?: number;
+  from?: string;
+  to?: string;
+  gasUsed?: string;
+  gas?: string;
+  effectiveGasPrice?: string;
+  gasPrice?: string;
+  /** OP-stack L1 data fee in wei, from the receipt */
+  l1Fee?: string;
+  /** Arbitrum gas units spent on L1 calldata posting, already part of gasUsed */
+  gasUsedForL1?: string;
+  /** EIP-4844 blob gas of type-3 transactions, from the receipt; paid on top of execution gas */
+  blobGasUsed?: string;
+  blobGasPrice?: string;
+  /** First four bytes of the input data; "0x" for plain transfers without calldata */
+  methodSelector?: string;
+  /** True when execution reverted; undefined when the provider does not report the status */
+  failed?: boolean;
+  /** Base fee of the including block in wei; null for blocks from before EIP-1559 */
+  baseFeePerGas?: string | null;
+  /** Priority fees paid in the including block at REWARD_PERCENTILES (10th, 50th, 90th), wei per gas */
+  rewardPercentiles?: string[];
+  /**
+   * Base fee sampled in each of the LATER_BASE_FEE_HOURS hours after the transaction's hour, wei per gas;
+   * null where no sample could be taken
+   */
+  laterBaseFees?: (string | null)[];
+  /** True once the receipt fields above have been filled in from the transaction receipt */
+  hasReceipt?: boolean;
+}
+
+/**
+ * Gas cost of a single transaction, priced at its historical native token/USD rate.
+ * The ETH-named fields hold amounts in the network's native token.
+ */
+export interface TxCost {
+  hash: string;
+  /** Epoch milliseconds */
+  timestamp: number;
+  /** Analyzed address the fee is attributed to: the sender, or for inbound transactions the recipient */
+  address: string;
+  to?: string;
+  /** True when an analyzed address sent the transaction and so paid its fee */
+  outgoing: boolean;
+  /** Total fee, including l1FeeETH and blobFeeETH */
+  costETH: number;
+  costUSD: number;
+  /** L1 data portion of costETH on rollups; 0 elsewhere */
+  l1FeeETH: number;
+  l1FeeUSD: number;
+  /** True when the transaction reverted; undefined when its status is unknown */
+  failed?: boolean;
+  methodSelector?: string;
+  /** Signature of the called function, when the selector is in the signature database */
+  method?: string;
+  /**
+   * Set when this entry is an ERC-4337 user operation rather than a whole transaction; hash is then
+   * the bundle transaction. paymaster is the sponsor, undefined when the account paid itself.
+   */
+  userOperation?: { hash: string; paymaster?: string };
+  /** EIP-4844 blob fee (blobGasUsed × blobGasPrice); 0 for other transactions */
+  blobFeeETH: number;
+  blobFeeUSD: number;
+  /**
+   * EIP-1559 split of the execution fee (costETH minus any OP-stack L1 fee and blob fee): the base fee portion
+   * burned by the protocol and the priority tip paid to the block producer. Absent when the block
+   * base fee is unknown or the block predates EIP-1559.
+   */
+  baseFeeETH?: number;
+  baseFeeUSD?: number;
+  priorityFeeETH?: number;
+  priorityFeeUSD?: number;
+  /** Base fee of the including block, wei per gas */
+  baseFeePerGas?: string;
+  /** Priority fees paid in the including block at the 10th, 50th and 90th percentile, wei per gas */
+  rewardPercentiles?: string[];
+  /** Base fee sampled in each of the hours after the transaction's hour, wei per gas; see Transaction */
+  laterBaseFees?: (string | null)[];
+  /**
+   * Tip paid above the block's median (50th percentile) priority fee, times gas used; 0 when the tip
+   * was at or below the median. Absent when the block's fee history is unknown.
+   */
+  overpaidETH?: number;
+  overpaidUSD?: number;
+  gasUsed: string;
+  /** Arbitrum only: the part of gasUsed that buys L1 calldata, reported separately as l1FeeETH */
+  gasUsedForL1?: string;
+  gasPrice: string;
+  ethPrice: number;
+}
+
+/**
+ * Which transactions count towards the totals: "sender" only those the address sent and paid for,
+ * "all" every transaction touching the address, including inbound ones paid for by someone else
+ */
+export type FeeAttribution = "sender" | "all";
+
+/**
+ * Inbound transactions left out of the totals in "sender" attribution mode
+ */
+export interface ExcludedInbound {
+  count: number;
+  /** Fees paid by the senders, for reference */
+  totalGasCostETH: string;
+  totalGasCostUSD: string;
+  /** Sorted newest first */
+  transactionCosts: TxCost[];
+}
+
+/**
+ * Totals for one address of a portfolio analysis
+ */
+export interface AddressBreakdown {
+  address: string;
+  transactions: number;
+  totalGasCostWei: string;
+  totalGasCostETH: string;
+  totalGasCostUSD: string;
+}
+
+export interface AnalysisStatistics {
+  totalTransactions: number;
+  mostExpensive: number;
+  averageCost: number;
+  /** Days between the oldest and newest priced transaction */
+  timeRange: number;
+  oldestTransaction: number;
+  newestTransaction: number;
+  /** L1 data cost on rollup networks; share is the fraction of total USD spend */
+  l1DataFee?: { costETH: number; costUSD: number; share: number };
+  /** The remaining L2 execution cost on rollup networks */
+  l2ExecutionFee?: { costETH: number; costUSD: number };
+  /** Blob fee totals, present when any transaction posted blobs; share is the fraction of total USD spend */
+  blobFee?: { transactions: number; costETH: number; costUSD: number; share: number };
+  /** ERC-4337 user operations of the analyzed smart accounts, split by who paid for them */
+  userOperations?: {
+    count: number;
+    selfPaid: { count: number; costETH: number; costUSD: number };
+    sponsored: { count: number; costETH: number; costUSD: number };
+  };
+  /**
+   * Fees paid for reverted transactions, over the transactions whose status is known.
+   * costliest holds up to five failed transactions, most expensive first.
+   */
+  failures?: {
+    /** Transactions with a known status */
+    transactions: number;
+    failed: number;
+    /** failed / transactions */
+    rate: number;
+    wastedETH: number;
+    wastedUSD: number;
+    costliest: TxCost[];
+  };
+  /** Tips paid above each block's median priority fee, over the transactions with known fee history */
+  overpayment?: {
+    transactions: number;
+    /** Transactions that tipped above their block's median */
+    overpaidTransactions: number;
+    overpaidETH: number;
+    overpaidUSD: number;
+  };
+  /**
+   * Base fee versus priority tip totals over the transactions with a known block base fee.
+   * The tip is everything paid above the base fee the block required.
+   */
+  feeSplit?: {
+    transactions: number;
+    baseFeeETH: number;
+    baseFeeUSD: number;
+    priorityFeeETH: number;
+    priorityFeeUSD: number;
+    /** Fraction of the split transactions' execution fees paid as tips */
+    tipShare: number;
+  };
+}
+
+/** Spend grouped by called function */
+export interface MethodSpend {
+  /** Function name, the raw selector when it is not in the database, or a description such as "ETH transfer" */
+  label: string;
+  selector?: string;
+  signature?: string;
+  transactions: number;
+  costETH: number;
+  costUSD: number;
+}
+
+/** Spend grouped by counterparty: the protocol when the "to" address is labeled, otherwise the address itself */
+export interface ProtocolSpend {
+  /** Protocol name, the raw address when unlabeled, or "Contract creation" */
+  label: string;
+  category?: string;
+  /** Lowercased "to" addresses in the group */
+  addresses: string[];
+  labeled: boolean;
+  transactions: number;
+  costETH: number;
+  costUSD: number;
+}
+
+export interface AnalysisResult {
+  success: true;
+  /** True when the analysis was cancelled and only covers the data gathered until then */
+  partial: boolean;
+  /** Analyzed addresses, duplicates removed */
+  addresses: string[];
+  network: string;
+  /** Token the fees were paid in; the ETH-named amounts are denominated in it */
+  nativeSymbol: string;
+  attribution: FeeAttribution;
+  totalGasCostWei: string;
+  totalGasCostETH: string;
+  totalGasCostUSD: string;
+  /** Sorted newest first */
+  transactionCosts: TxCost[];
+  statistics: AnalysisStatistics;
+  /** Per-address share of the totals, in the order the addresses were given */
+  breakdown: AddressBreakdown[];
+  /** Spend by called function, most expensive first */
+  methodBreakdown: MethodSpend[];
+  /** Spend by counterparty protocol, most expensive first */
+  protocolBreakdown: ProtocolSpend[];
+  /** Transactions between two analyzed addresses, counted once in the totals */
+  internalTransactions: number;
+  /** Empty in "all" attribution mode, where inbound transactions are part of the totals */
+  excludedInbound: ExcludedInbound;
+  /** Provider request and retry counters for this analysis */
+  requestStats: RequestStats;
+  /** Malformed provider data and transactions left out of the totals, in the order found */
+  diagnostics: Diagnostic[];
+  /** Total number of diagnostics; larger than diagnostics.length when the list was truncated */
+  diagnosticCount: number;
+}
@@ -0,0 +1,185 @@
+import { z } from "zod";
+import { fetchBlockHeaders } from "./blocks";
+import { parseResponse, parseRows, type Diagnostics } from "./diagnostics";
+import { JsonRpcError } from "./errors";
+import { rpcRequest } from "./rpc";
+import { scheduled, type RequestScheduler } from "./scheduler";
+import { hashSchema, hexDataSchema, quantitySchema } from "./schemas";
+
+/** ERC-4337 EntryPoint v0.6, v0.7 and v0.8, deployed at the same address on every supported network */
+export const ENTRY_POINTS = [
+  "0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789",
+  "0x0000000071727De22E5E9d8BAf0edAc6f37da032",
+  "0x4337084D9E255Ff0702461CF8895CE9E3b5Ff108",
+];
+
+/** keccak256("UserOperationEvent(bytes32,address,address,uint256,bool,uint256,uint256)") */
+const USER_OPERATION_EVENT_TOPIC = "0x49628fd1471006c1482da88028e9ce4dbb080b815c9b0344d39e5a8e6ec1419f";
+
+/** Block headers requested per JSON-RPC batch */
+const BLOCK_BATCH_SIZE = 50;
+/** Block range of one eth_getLogs request; a range the provider still rejects is halved */
+const LOG_BLOCK_RANGE = 2_000_000;
+/** Ranges this small are not split further, so a persistent rejection surfaces as an error */
+const MIN_LOG_BLOCK_RANGE = 1_000;
+
+const SOURCE = "EntryPoint logs";
+
+const logSchema = z.object({
+  transactionHash: hashSchema,
+  blockNumber: quantitySchema,
+  address: z.string(),
+  // [event signature, userOpHash, sender, paymaster]
+  topics: z.array(z.string().regex(/^0x[0-9a-fA-F]{64}$/)).length(4),
+  // nonce, success, actualGasCost, actualGasUsed
+  data: z.string().regex(/^0x[0-9a-fA-F]{256}$/, "Expected four ABI words"),
+});
+
+export interface UserOperation {
+  userOpHash: string;
+  /** Hash of the bundle (handleOps) transaction that included the operation */
+  transactionHash: string;
+  blockNumber: string;
+  /** Epoch milliseconds */
+  timestamp?: number;
+  entryPoint: string;
+  /** The smart account */
+  sender: string;
+  /** Sponsoring paymaster; undefined when the account paid for itself */
+  paymaster?: string;
+  success: boolean;
+  /** Wei charged for the operation, including its share of the bundle overhead */
+  actualGasCost: string;
+  actualGasUsed: string;
+}
+
+export function isEntryPoint(address: string | undefined): boolean {
+  return !!address && ENTRY_POINTS.some((entryPoint) => entryPoint.toLowerCase() === address.toLowerCase());
+}
+
+function topicToAddress(topic: string): string {
+  return `0x${topic.slice(26)}`;
+}
+
+function word(data: string, index: number): bigint {
+  return BigInt(`0x${data.slice(2 + index * 64, 2 + (index + 1) * 64)}`);
+}
+
+type LogQuery = Pick<FetchUserOperationsOptions, "scheduler" | "signal" | "diagnostics"> & { topics: (string | null)[] };
+
+/**
+ * eth_getLogs over an inclusive block range. Providers cap the range (or the result size) of a single
+ * request, so a range the server rejects is split in two and each half fetched separately.
+ */
+async function fetchLogs(rpcUrl: string, fromBlock: number, toBlock: number, query: LogQuery): Promise<unknown[]> {
+  const { topics, scheduler, signal, diagnostics } = query;
+  try {
+    const raw = await scheduled(scheduler, `${SOURCE} blocks ${fromBlock}-${toBlock}`, () =>
+      rpcRequest<unknown>(
+        rpcUrl,
+        "eth_getLogs",
+        [{ address: ENTRY_POINTS, topics, fromBlock: `0x${fromBlock.toString(16)}`, toBlock: `0x${toBlock.toString(16)}` }],
+        signal,
+        diagnostics
+      )
+    );
+    return parseResponse(z.array(z.unknown()), raw, SOURCE, diagnostics);
+  } catch (error) {
+    if (!(error instanceof JsonRpcError) || toBlock - fromBlock < MIN_LOG_BLOCK_RANGE) {
+      throw error;
+    }
+    const middle = Math.floor((fromBlock + toBlock) / 2);
+    const halves = await Promise.all([
+      fetchLogs(rpcUrl, fromBlock, middle, query),
+      fetchLogs(rpcUrl, middle + 1, toBlock, query),
+    ]);
+    return halves.flat();
+  }
+}
+
+export interface FetchUserOperationsOptions {
+  /** Only look at blocks from this one on, e.g. the network's entryPointBlock or the block after the last scan */
+  fromBlock?: number;
+  scheduler?: RequestScheduler;
+  signal?: AbortSignal;
+  diagnostics?: Diagnostics;
+}
+
+export interface UserOperationScan {
+  operations: UserOperation[];
+  /** Last block scanned; undefined when the address has no code and no logs were requested */
+  toBlock?: number;
+}
+
+/**
+ * Find the user operations sent by a smart account through the known EntryPoints, using
+ * UserOperationEvent logs filtered on the indexed sender, and timestamp them from their blocks.
+ * Logs are requested in LOG_BLOCK_RANGE chunks up to the current head. Addresses without code
+ * cannot have sent user operations, so they are not scanned.
+ */
+export async function fetchUserOperations(
+  rpcUrl: string,
+  account: string,
+  options: FetchUserOperationsOptions = {}
+): Promise<UserOperationScan> {
+  const { fromBlock = 0, scheduler, signal, diagnostics } = options;
+  const rawCode = await scheduled(scheduler, `${SOURCE} code of ${account}`, () =>
+    rpcRequest<unknown>(rpcUrl, "eth_getCode", [account, "latest"], signal, diagnostics)
+  );
+  if (parseResponse(hexDataSchema, rawCode, `${SOURCE} code`, diagnostics) === "0x") {
+    return { operations: [] };
+  }
+
+  const senderTopic = `0x${account.slice(2).toLowerCase().padStart(64, "0")}`;
+  const rawHead = await scheduled(scheduler, `${SOURCE} head`, () =>
+    rpcRequest<unknown>(rpcUrl, "eth_blockNumber", [], signal, diagnostics)
+  );
+  const head = Number(parseResponse(quantitySchema, rawHead, `${SOURCE} head`, diagnostics));
+
+  const query: LogQuery = { topics: [USER_OPERATION_EVENT_TOPIC, null, senderTopic], scheduler, signal, diagnostics };
+  const chunks: Promise<unknown[]>[] = [];
+  for (let start = fromBlock; start <= head; start += LOG_BLOCK_RANGE) {
+    chunks.push(fetchLogs(rpcUrl, start, Math.min(head, start + LOG_BLOCK_RANGE - 1), query));
+  }
+  const rawLogs = (await Promise.all(chunks)).flat();
+  const logs = parseRows(
+    logSchema,
+    rawLogs,
+    SOURCE,
+    diagnostics,
+    (row, index) => (row as { transactionHash?: string } | null)?.transactionHash ?? `log ${index}`
+  );
+
+  const operations: UserOperation[] = logs.map((log) => {
+    const paymaster = topicToAddress(log.topics[3]);
+    return {
+      userOpHash: log.topics[1],
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      entryPoint: log.address,
+      sender: topicToAddress(log.topics[2]),
+      paymaster: BigInt(paymaster) === 0n ? undefined : paymaster,
+      success: word(log.data, 1) !== 0n,
+      actualGasCost: word(log.data, 2).toString(),
+      actualGasUsed: word(log.data, 3).toString(),
+    };
+  });
+
+  // Logs carry no timestamp, so it comes from the block headers
+  const blockNumbers = [...new Set(operations.map((operation) => operation.blockNumber))];
+  const timestamps = new Map<string, number>();
+  for (let i = 0; i < blockNumbers.length; i += BLOCK_BATCH_SIZE) {
+    const numbers = blockNumbers.slice(i, i + BLOCK_BATCH_SIZE);
+    const headers = await scheduled(scheduler, `${SOURCE} blocks ${i / BLOCK_BATCH_SIZE + 1}`, () =>
+      fetchBlockHeaders(rpcUrl, numbers, { signal, diagnostics })
+    );
+    for (const [number, header] of headers) {
+      timestamps.set(number, header.timestamp);
+    }
+  }
+
+  return {
+    operations: operations.map((operation) => ({ ...operation, timestamp: timestamps.get(operation.blockNumber) })),
+    toBlock: head,
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Normalize a block timestamp to epoch milliseconds.
+ * Accepts epoch seconds or milliseconds (number, decimal or hex string) and ISO date strings.
+ */
+export function toTimestampMs(value: string | number | undefined | null): number | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+
+  let numeric: number;
+  if (typeof value === "number") {
+    numeric = value;
+  } else if (/^0x[0-9a-f]+$/i.test(value)) {
+    numeric = Number(BigInt(value));
+  } else if (/^\d+$/.test(value)) {
+    numeric = Number(value);
+  } else {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+
+  // Anything below 1e12 is epoch seconds (1e12 ms is September 2001)
+  return numeric < 1e12 ? numeric * 1000 : numeric;
+}
+
+/**
+ * Convert a hex quantity (or decimal string) to a decimal string
+ */
+export function toDecimalString(value: string | number | undefined | null): string | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  return BigInt(value).toString();
+}
+
+/** Convert a wei amount to whole native tokens (10^18 wei on every supported network) */
+export function weiToNative(wei: bigint): number {
+  return parseFloat(wei.toString()) / Math.pow(10, 18);
+}
+
+/**
+ * Convert a gwei amount to wei without floating-point overflow, rounding to whole wei.
+ * Throws for negative and non-finite amounts.
+ */
+export function gweiToWei(gwei: number): bigint {
+  if (!Number.isFinite(gwei) || gwei < 0) {
+    throw new RangeError(`Invalid gwei amount: ${gwei}`);
+  }
+  // toFixed switches to exponent notation from 1e21, where every double is a whole number anyway
+  if (gwei >= 1e21) {
+    return BigInt(gwei) * 10n ** 9n;
+  }
+  const [whole, fraction] = gwei.toFixed(9).split(".");
+  return BigInt(whole) * 10n ** 9n + BigInt(fraction);
+}
@@ -0,0 +1,42 @@
+import { AnalysisCancelledError } from "../errors";
+import type { WorkerAnalysisRequest, WorkerRequest, WorkerResponse } from "./protocol";
+import { analyzeRequest } from "./request";
+
+const controllers = new Map<number, AbortController>();
+
+function post(message: WorkerResponse) {
+  self.postMessage(message);
+}
+
+async function startAnalysis(id: number, request: WorkerAnalysisRequest) {
+  const controller = new AbortController();
+  controllers.set(id, controller);
+
+  try {
+    const result = await analyzeRequest(request, {
+      signal: controller.signal,
+      onProgress: (progress) => post({ type: "progress", id, progress }),
+    });
+    post({ type: "done", id, result });
+  } catch (error) {
+    if (error instanceof AnalysisCancelledError) {
+      post({ type: "partial-result", id, result: error.partialResult });
+    } else {
+      post({ type: "error", id, message: error.message });
+    }
+  } finally {
+    controllers.delete(id);
+  }
+}
+
+self.addEventListener("message", (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case "start":
+      startAnalysis(message.id, message.request);
+      break;
+    case "cancel":
+      controllers.get(message.id)?.abort();
+      break;
+  }
+});
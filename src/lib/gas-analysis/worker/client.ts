@@ -0,0 +1,80 @@
+import { AnalysisCancelledError } from "../errors";
+import type { ProgressCallback } from "../progress";
+import type { AnalysisResult } from "../types";
+import type { WorkerAnalysisRequest, WorkerRequest, WorkerResponse } from "./protocol";
+import { analyzeRequest } from "./request";
+
+export interface WorkerRunOptions {
+  signal?: AbortSignal;
+  onProgress?: ProgressCallback;
+}
+
+let nextId = 1;
+
+export function isWorkerSupported(): boolean {
+  return typeof Worker !== "undefined";
+}
+
+/**
+ * Run an analysis in a dedicated Web Worker. Resolves and rejects exactly like calculateGasCosts,
+ * including AnalysisCancelledError with the partial result when the signal aborts.
+ */
+export function runAnalysisInWorker(
+  request: WorkerAnalysisRequest,
+  options: WorkerRunOptions = {}
+): Promise<AnalysisResult> {
+  const { signal, onProgress } = options;
+  if (signal?.aborted) {
+    return Promise.reject(new AnalysisCancelledError(null));
+  }
+
+  const id = nextId++;
+  const worker = new Worker(new URL("./analysis.worker.ts", import.meta.url), { type: "module" });
+  const send = (message: WorkerRequest) => worker.postMessage(message);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => send({ type: "cancel", id });
+    const finish = () => {
+      signal?.removeEventListener("abort", onAbort);
+      worker.terminate();
+    };
+
+    worker.addEventListener("message", (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if (message.id !== id) {
+        return;
+      }
+      switch (message.type) {
+        case "progress":
+          onProgress?.(message.progress);
+          break;
+        case "partial-result":
+          finish();
+          reject(new AnalysisCancelledError(message.result));
+          break;
+        case "done":
+          finish();
+          resolve(message.result);
+          break;
+        case "error":
+          finish();
+          reject(new Error(message.message));
+          break;
+      }
+    });
+    worker.addEventListener("error", (event) => {
+      finish();
+      reject(new Error(event.message || "Analysis worker failed"));
+    });
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    send({ type: "start", id, request });
+  });
+}
+
+/**
+ * Run the analysis in a Web Worker where available, falling back to the current thread
+ */
+export function runAnalysis(request: WorkerAnalysisRequest, options: WorkerRunOptions = {}): Promise<AnalysisResult> {
+  return isWorkerSupported() ? runAnalysisInWorker(request, options) : analyzeRequest(request, options);
+}
@@ -0,0 +1,4 @@
+export { isWorkerSupported, runAnalysis, runAnalysisInWorker } from "./client";
+export { analyzeRequest } from "./request";
+export type { WorkerRunOptions } from "./client";
+export type { WorkerAnalysisRequest, WorkerRequest, WorkerResponse } from "./protocol";
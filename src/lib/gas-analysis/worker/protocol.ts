@@ -0,0 +1,44 @@
+import type { HistoryProviderConfig } from "../history";
+import type { ProtocolLabel } from "../labels";
+import type { PriceProviderConfig } from "../prices";
+import type { AnalysisProgress } from "../progress";
+import type { SchedulerOptions } from "../scheduler";
+import type { AnalysisResult, FeeAttribution } from "../types";
+
+/**
+ * Serializable analysis settings. Providers and caches are built inside the worker
+ * since class instances cannot cross the worker boundary.
+ */
+export interface WorkerAnalysisRequest {
+  /** One address, or several analyzed together as a portfolio */
+  addresses: string[];
+  historyProvider: HistoryProviderConfig;
+  priceProvider: PriceProviderConfig;
+  network?: string;
+  rpcUrl?: string;
+  /** Sample later base fees for the what-if delay simulation; see AnalysisOptions */
+  sampleLaterBaseFees?: boolean;
+  attribution?: FeeAttribution;
+  /** Contract ABI JSON texts whose functions extend the bundled signature database */
+  abis?: string[];
+  /** User protocol labels, layered over the built-in ones */
+  labels?: ProtocolLabel[];
+  requestOptions?: SchedulerOptions;
+  /** Use the IndexedDB history cache inside the worker */
+  useHistoryCache?: boolean;
+  /** Use the IndexedDB price cache inside the worker */
+  usePriceCache?: boolean;
+}
+
+/** Messages sent from the page to the worker */
+export type WorkerRequest =
+  | { type: "start"; id: number; request: WorkerAnalysisRequest }
+  | { type: "cancel"; id: number };
+
+/** Messages sent from the worker to the page */
+export type WorkerResponse =
+  | { type: "progress"; id: number; progress: AnalysisProgress }
+  /** Sent instead of done when the analysis was cancelled; null when nothing could be computed */
+  | { type: "partial-result"; id: number; result: AnalysisResult | null }
+  | { type: "done"; id: number; result: AnalysisResult }
+  | { type: "error"; id: number; message: string };
@@ -0,0 +1,37 @@
+import { calculateGasCosts } from "../engine";
+import { IndexedDbHistoryCache, createHistoryProvider } from "../history";
+import { LabelRegistry } from "../labels";
+import { IndexedDbPriceCache, createPriceProvider } from "../prices";
+import type { ProgressCallback } from "../progress";
+import { SignatureDatabase } from "../signatures";
+import type { AnalysisResult } from "../types";
+import type { WorkerAnalysisRequest } from "./protocol";
+
+/**
+ * Build providers and caches from a serializable request and run the analysis on the current thread
+ */
+export async function analyzeRequest(
+  request: WorkerAnalysisRequest,
+  options: { signal?: AbortSignal; onProgress?: ProgressCallback } = {}
+): Promise<AnalysisResult> {
+  const signatures = new SignatureDatabase();
+  for (const abi of request.abis ?? []) {
+    signatures.addAbi(abi);
+  }
+  return calculateGasCosts(request.addresses, {
+    historyProvider: createHistoryProvider(request.historyProvider),
+    priceProvider: createPriceProvider(request.priceProvider),
+    historyCache:
+      request.useHistoryCache && IndexedDbHistoryCache.isSupported() ? new IndexedDbHistoryCache() : undefined,
+    priceCache: request.usePriceCache && IndexedDbPriceCache.isSupported() ? new IndexedDbPriceCache() : undefined,
+    network: request.network,
+    rpcUrl: request.rpcUrl,
+    sampleLaterBaseFees: request.sampleLaterBaseFees,
+    attribution: request.attribution,
+    signatures,
+    labels: new LabelRegistry(request.labels),
+    requestOptions: request.requestOptions,
+    signal: options.signal,
+    onProgress: options.onProgress,
+  });
+}
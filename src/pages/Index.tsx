@@ -1,310 +1,170 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Zap, TrendingUp, DollarSign, Clock, Activity } from "lucide-react";
-import axios from "axios";
+import { Zap, TrendingUp, DollarSign, Clock, Activity, XCircle, Plus, Layers, Flame, Box, AlertOctagon, Users, Gauge } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  AnalysisCancelledError,
+  DEFAULT_NETWORK,
+  NETWORKS,
+  getNetwork,
+  runAnalysis,
+  type AnalysisProgress,
+  type AnalysisResult,
+  type FeeAttribution,
+  type HistoryProviderKind,
+  type PriceProviderKind,
+} from "@/lib/gas-analysis";
+import DiagnosticsPanel from "@/components/analysis/DiagnosticsPanel";
+import FailedTransactionsTable from "@/components/analysis/FailedTransactionsTable";
+import MethodBreakdown from "@/components/analysis/MethodBreakdown";
+import ProtocolBreakdownTable from "@/components/analysis/ProtocolBreakdownTable";
+import ProtocolLabelsCard from "@/components/analysis/ProtocolLabelsCard";
+import { useProtocolLabels } from "@/hooks/use-protocol-labels";
+import LocalCacheCard from "@/components/analysis/LocalCacheCard";
+import WalletAddressField from "@/components/analysis/WalletAddressField";
+import AddressBreakdownTable from "@/components/analysis/AddressBreakdownTable";
+import ProgressPanel, { type ActivityLogEntry } from "@/components/analysis/ProgressPanel";
+import SignatureSearch from "@/components/analysis/SignatureSearch";
+import SpendChart from "@/components/analysis/SpendChart";
+import TransactionCostsTable from "@/components/analysis/TransactionCostsTable";
+import WhatIfSimulationPanel from "@/components/analysis/WhatIfSimulationPanel";
+import {
+  HISTORY_CACHE_STATS_QUERY_KEY,
+  HISTORY_PROVIDERS,
+  PRICE_CACHE_STATS_QUERY_KEY,
+  PRICE_PROVIDERS,
+  REQUEST_OPTIONS,
+  getHistoryProviderConfig,
+  getPriceProviderConfig,
+  getNetworkRpcUrl,
+  historyCache,
+  priceCache,
+} from "@/lib/analysis-config";
+
+interface WalletEntry {
+  id: number;
+  input: string;
+  /** Checksummed address once the input is valid and resolved */
+  address: string | null;
+}
+
 const Index = () => {
-  const [walletAddress, setWalletAddress] = useState("");
+  const queryClient = useQueryClient();
+  const nextWalletId = useRef(1);
+  const [wallets, setWallets] = useState<WalletEntry[]>([{ id: 0, input: "", address: null }]);
   const [showResults, setShowResults] = useState(false);
   const [isCalculating, setIsCalculating] = useState(false);
-  const [result, setResult] = useState(null);
+  const [result, setResult] = useState<AnalysisResult | null>(null);
   const [error, setError] = useState("");
+  const [cancelledResult, setCancelledResult] = useState<AnalysisResult | null | undefined>(undefined);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [activityLog, setActivityLog] = useState<ActivityLogEntry[]>([]);
+  const [historyProviderKind, setHistoryProviderKind] = useState<HistoryProviderKind>(
+    HISTORY_PROVIDERS.find((provider) => provider.configured)?.kind ?? "alchemy"
+  );
+  const [priceProviderKind, setPriceProviderKind] = useState<PriceProviderKind>(
+    PRICE_PROVIDERS.find((provider) => provider.configured)?.kind ?? "alchemy"
+  );
+  const historyProviderLabel = HISTORY_PROVIDERS.find((provider) => provider.kind === historyProviderKind)?.label;
+  const priceProviderLabel = PRICE_PROVIDERS.find((provider) => provider.kind === priceProviderKind)?.label;
+  const [priceFile, setPriceFile] = useState<File | null>(null);
+  const [abiFiles, setAbiFiles] = useState<File[]>([]);
+  const protocolLabels = useProtocolLabels();
+  const [attribution, setAttribution] = useState<FeeAttribution>("sender");
+  const [network, setNetwork] = useState(DEFAULT_NETWORK);
+  const [sampleLaterBaseFees, setSampleLaterBaseFees] = useState(false);
+  const rpcUrl = getNetworkRpcUrl(network);
+
+  const filledWallets = wallets.filter((wallet) => wallet.input.trim());
+  const addressesReady = filledWallets.length > 0 && filledWallets.every((wallet) => wallet.address);
+
+  const updateWallet = (id: number, update: Partial<WalletEntry>) => {
+    setWallets((current) => current.map((wallet) => (wallet.id === id ? { ...wallet, ...update } : wallet)));
+  };
 
-  /**
- * Complete Gas Cost Calculator Function
- * Calculates total gas costs for an Ethereum address with historical USD pricing
- * 
- * @param {string} address - Ethereum wallet address
- * @param {string} apiKey - Alchemy API key
- * @param {function} onProgress - Optional callback for progress updates
- * @returns {Promise<Object>} Gas cost analysis results
- */
-  const calculateGasCosts = async (address, apiKey, onProgress = null) => {
-    const NETWORK = 'eth-mainnet';
-    const HISTORY_API_URL = `https://api.g.alchemy.com/data/v1/${apiKey}/transactions/history/by-address`;
-    const PRICES_API_URL = `https://api.g.alchemy.com/prices/v1/${apiKey}/tokens/historical`;
-
-    /**
-     * Fetch transaction history for the given address using pagination
-     */
-    async function fetchTransactionHistory(address) {
-      let transactions = [];
-      let hasMore = true;
-      let cursor = undefined; // Renamed variable
-      let page = 1;
-
-      while (hasMore) {
-        // Prepare the request payload with a limit (max 50)
-        const data = {
-          addresses: [{ address, networks: [NETWORK] }],
-          limit: 50
-        };
-        // If a cursor was returned, include it in the next request as "after"
-        if (cursor) {
-          data.after = cursor;
-        }
-
-        console.log(`Fetching page ${page} with cursor: ${cursor || "none"}`);
-
-        try {
-          const response = await axios.post(HISTORY_API_URL, data);
+  const addWallet = () => {
+    setWallets((current) => [...current, { id: nextWalletId.current++, input: "", address: null }]);
+  };
 
-          // Destructure the transactions array and the "after" cursor from the response.
-          const { transactions: txs, after } = response.data;
+  const removeWallet = (id: number) => {
+    setWallets((current) => current.filter((wallet) => wallet.id !== id));
+  };
 
-          if (txs && Array.isArray(txs) && txs.length > 0) {
-            transactions = transactions.concat(txs);
-            if (after) {
-              cursor = after;
-              page++;
-            } else {
-              hasMore = false;
-            }
-          } else {
-            hasMore = false;
-          }
-        } catch (error) {
-          console.error("Error fetching transaction history:", error.response?.data || error.message);
-          throw error;
-        }
-      }
-      console.log(`Total transactions fetched: ${transactions.length}`);
-      return transactions;
+  const handleCalculate = async () => {
+    if (!addressesReady) {
+      return;
     }
-
-    /**
-     * Fetch historical ETH price for a given timestamp
-     */
-    const fetchHistoricalETHPrice = async (timestamp) => {
-      const startDate = new Date(Number(timestamp));
-      const endDate = new Date(Number(timestamp) + 3600000); // +1 hour
-      const startTime = startDate.toISOString();
-      const endTime = endDate.toISOString();
-
-      const body = {
-        symbol: "ETH",
-        startTime: startTime,
-        endTime: endTime,
-        interval: "1h"
-      };
-
-      try {
-        const response = await fetch(PRICES_API_URL, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(body)
-        });
-
-        if (!response.ok) {
-          console.warn(`Failed to fetch price for ${startTime}: ${response.status}`);
-          return null;
-        }
-
-        const responseData = await response.json();
-
-        if (
-          responseData &&
-          responseData.data &&
-          Array.isArray(responseData.data) &&
-          responseData.data.length > 0
-        ) {
-          const priceObj = responseData.data[0];
-          return parseFloat(priceObj.value);
-        }
-
-        return null;
-      } catch (error) {
-        console.warn(`Error fetching historical ETH price: ${error.message}`);
-        return null;
-      }
-    };
-
-    /**
-     * Main calculation function
-     */
-    const calculateTotalGasCost = async (address) => {
-      if (onProgress) {
-        onProgress("Starting gas cost analysis...");
-      }
-
-      const transactions = await fetchTransactionHistory(address);
-
-      if (transactions.length === 0) {
-        throw new Error("No transactions found for this address");
-      }
-
-      let totalGasCostWei = 0n;
-      let totalGasCostETH = 0.0;
-      let totalGasCostUSD = 0.0;
-      let txCosts = [];
-      let lastValidPrice = null;
-      let processedCount = 0;
-
-      if (onProgress) {
-        onProgress("Processing transactions and fetching historical prices...");
-      }
-
-      for (const tx of transactions) {
-        processedCount++;
-        console.log(`Processing transaction ${processedCount}/${transactions.length}: ${tx.hash}`);
-        if (onProgress && processedCount % 10 === 0) {
-          onProgress(`Processing transaction ${processedCount} of ${transactions.length}...`);
-        }
-        console.log(`Transaction hash: ${tx.hash}`);
-        const gasUsedValue = tx.gasUsed || tx.gas;
-        if (!gasUsedValue) {
-          console.warn(`Transaction ${tx.hash} missing gasUsed/gas, skipping.`);
-          continue;
-        }
-        console.log(`Gas used: ${gasUsedValue}`);
-        const gasPriceValue = tx.effectiveGasPrice || tx.gasPrice;
-        if (!gasPriceValue) {
-          console.warn(`Transaction ${tx.hash} missing effectiveGasPrice/gasPrice, skipping.`);
-          continue;
-        }
-        console.log(`Gas price: ${gasPriceValue}`);
-        try {
-          const gasUsedBig = BigInt(gasUsedValue);
-          const gasPriceBig = BigInt(gasPriceValue);
-          const txCostWei = gasUsedBig * gasPriceBig;
-
-          // Convert Wei to ETH (1 ETH = 10^18 Wei)
-          const txCostETH = parseFloat(txCostWei.toString()) / Math.pow(10, 18);
-
-          if (!tx.blockTimestamp) {
-            console.warn(`Transaction ${tx.hash} missing blockTimestamp, skipping historical price lookup.`);
-            continue;
-          }
-
-          // Fetch historical price with retry logic
-          console.log(`Fetching historical price for transaction ${tx.hash} at timestamp ${tx.blockTimestamp}`);
-          let histPriceUSD = await fetchHistoricalETHPrice(tx.blockTimestamp);
-          if (!histPriceUSD) {
-            console.warn(`Historical price not found for transaction ${tx.hash} at timestamp ${tx.blockTimestamp}`);
-          }
-          if (histPriceUSD === null) {
-            if (lastValidPrice !== null) {
-              histPriceUSD = lastValidPrice;
-              console.warn(`Using last valid historical price for transaction ${tx.hash}`);
-            } else {
-              console.warn(`Skipping transaction ${tx.hash} due to missing historical price and no prior price available.`);
-              continue;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsCalculating(true);
+    setError("");
+    setCancelledResult(undefined);
+    setProgress(null);
+    setActivityLog([]);
+    try {
+      const priceFileText = priceProviderKind === "price-file" && priceFile ? await priceFile.text() : "";
+      const abis = await Promise.all(abiFiles.map((file) => file.text()));
+      // The analysis runs in a Web Worker, so providers are passed as serializable configs
+      const analysis = await runAnalysis(
+        {
+          addresses: filledWallets.map((wallet) => wallet.address),
+          historyProvider: getHistoryProviderConfig(historyProviderKind),
+          priceProvider: getPriceProviderConfig(priceProviderKind, priceFileText),
+          network,
+          rpcUrl,
+          sampleLaterBaseFees,
+          attribution,
+          abis,
+          labels: protocolLabels.labels,
+          requestOptions: REQUEST_OPTIONS,
+          useHistoryCache: !!historyCache,
+          // Local price files are already offline; only remote prices are worth caching
+          usePriceCache: !!priceCache && priceProviderKind !== "price-file",
+        },
+        {
+          signal: abortController.signal,
+          onProgress: (update) => {
+            setProgress(update);
+            if (update.message) {
+              setActivityLog((log) => [...log, { time: Date.now(), message: update.message }]);
             }
-          } else {
-            lastValidPrice = histPriceUSD;
-          }
-
-          const txCostUSD = txCostETH * histPriceUSD;
-
-          totalGasCostWei += txCostWei;
-          totalGasCostETH += txCostETH;
-          totalGasCostUSD += txCostUSD;
-
-          txCosts.push({
-            hash: tx.hash,
-            timestamp: tx.blockTimestamp,
-            costETH: txCostETH,
-            costUSD: txCostUSD,
-            gasUsed: gasUsedValue,
-            gasPrice: gasPriceValue,
-            ethPrice: histPriceUSD
-          });
-
-          // Small delay to avoid rate limiting
-          if (processedCount % 20 === 0) {
-            await new Promise(resolve => setTimeout(resolve, 100));
-          }
-
-        } catch (error) {
-          console.error(`Error processing transaction ${tx.hash}:`, error.message);
+          },
         }
+      );
+      setResult(analysis);
+      setShowResults(true);
+    } catch (err) {
+      if (err instanceof AnalysisCancelledError) {
+        setCancelledResult(err.partialResult);
+      } else {
+        setError(err.message);
       }
-
-      if (onProgress) {
-        onProgress("Finalizing calculations...");
-      }
-
-      // Calculate additional statistics
-      const costs = txCosts.map(tx => tx.costUSD);
-      const mostExpensive = costs.length > 0 ? Math.max(...costs) : 0;
-      const avgCost = costs.length > 0 ? costs.reduce((a, b) => a + b, 0) / costs.length : 0;
-
-      const timestamps = txCosts.map(tx => Number(tx.timestamp));
-      const oldestTimestamp = timestamps.length > 0 ? Math.min(...timestamps) : 0;
-      const newestTimestamp = timestamps.length > 0 ? Math.max(...timestamps) : 0;
-      const timeRange = timestamps.length > 0 ?
-        Math.ceil((newestTimestamp - oldestTimestamp) / (1000 * 60 * 60 * 24)) : 0;
-
-      return {
-        success: true,
-        totalGasCostWei: totalGasCostWei.toString(),
-        totalGasCostETH: totalGasCostETH.toString(),
-        totalGasCostUSD: totalGasCostUSD.toFixed(2),
-        transactionCosts: txCosts.sort((a, b) => Number(b.timestamp) - Number(a.timestamp)), // Sort by newest first
-        statistics: {
-          totalTransactions: txCosts.length,
-          mostExpensive: mostExpensive,
-          averageCost: avgCost,
-          timeRange: timeRange,
-          oldestTransaction: oldestTimestamp,
-          newestTransaction: newestTimestamp
-        }
-      };
-    };
-
-    // Validate inputs
-    if (!address || typeof address !== 'string') {
-      throw new Error("Valid Ethereum address is required");
-    }
-
-    if (!apiKey || typeof apiKey !== 'string') {
-      throw new Error("Valid Alchemy API key is required");
+    } finally {
+      abortControllerRef.current = null;
+      setIsCalculating(false);
+      queryClient.invalidateQueries({ queryKey: PRICE_CACHE_STATS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: HISTORY_CACHE_STATS_QUERY_KEY });
     }
+  };
 
-    // Execute calculation
-    try {
-      const result = await calculateTotalGasCost(address);
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
 
-      if (onProgress) {
-        onProgress("✅ Analysis complete!");
-      }
-      console.log("Gas cost analysis result:", result);
-      setShowResults(true);
-      setResult(result);
-      setError("");
-      setIsCalculating(false);
-      return result;
-    } catch (error) {
-      if (onProgress) {
-        onProgress(`❌ Error: ${error.message}`);
-      }
-      throw error;
-    }
+  const showPartialResult = () => {
+    setResult(cancelledResult);
+    setShowResults(true);
+    setCancelledResult(undefined);
   };
 
-  /**
-   * Usage Example:
-   * 
-   * const handleCalculate = async () => {
-   *   try {
-   *     setLoading(true);
-   *     const result = await calculateGasCosts(
-   *       walletAddress, 
-   *       "your-alchemy-api-key",
-   *       (progress) => setProgressMessage(progress)
-   *     );
-   *     setResult(result);
-   *   } catch (error) {
-   *     setError(error.message);xs
-   *   } finally {
-   *     setLoading(false);
-   *   }
-   * };
-   */
   const stats = result?.statistics || null;
+  const includedInbound = result?.attribution === "all" ? result.transactionCosts.filter((tx) => !tx.outgoing).length : 0;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-900 to-green-900 relative overflow-hidden">
@@ -334,41 +194,199 @@ const Index = () => {
             <CardHeader>
               <CardTitle className="text-center text-white">Wallet Analysis</CardTitle>
               <CardDescription className="text-center text-gray-300">
-                Enter an Ethereum wallet address to analyze total gas costs with historical USD values
+                Enter an Ethereum wallet address or .eth name to analyze total gas costs with historical USD values
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="space-y-2">
-                <label className="text-sm font-medium text-white">Wallet Address</label>
+                <label className="text-sm font-medium text-white">
+                  {wallets.length > 1 ? "Wallet Addresses" : "Wallet Address"}
+                </label>
+                {wallets.map((wallet) => (
+                  <WalletAddressField
+                    key={wallet.id}
+                    value={wallet.input}
+                    onChange={(input) => updateWallet(wallet.id, { input })}
+                    onResolvedChange={(address) => updateWallet(wallet.id, { address })}
+                    onRemove={wallets.length > 1 ? () => removeWallet(wallet.id) : undefined}
+                  />
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={addWallet}
+                  className="text-green-400 hover:text-green-300 hover:bg-white/10"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add another address
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white">Network</label>
+                <Select value={network} onValueChange={setNetwork}>
+                  <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {NETWORKS.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.name} ({option.nativeSymbol})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-white">History Provider</label>
+                  <Select
+                    value={historyProviderKind}
+                    onValueChange={(value) => setHistoryProviderKind(value as HistoryProviderKind)}
+                  >
+                    <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HISTORY_PROVIDERS.map((provider) => (
+                        <SelectItem key={provider.kind} value={provider.kind} disabled={!provider.configured}>
+                          {provider.label}
+                          {!provider.configured && " (not configured)"}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-white">Price Provider</label>
+                  <Select
+                    value={priceProviderKind}
+                    onValueChange={(value) => setPriceProviderKind(value as PriceProviderKind)}
+                  >
+                    <SelectTrigger className="bg-white/10 border-white/20 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PRICE_PROVIDERS.map((provider) => (
+                        <SelectItem key={provider.kind} value={provider.kind} disabled={!provider.configured}>
+                          {provider.label}
+                          {!provider.configured && " (not configured)"}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {priceProviderKind === "price-file" && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-white">Price File</label>
+                  <Input
+                    type="file"
+                    accept=".csv,.json,text/csv,application/json"
+                    onChange={(e) => setPriceFile(e.target.files?.[0] ?? null)}
+                    className="bg-white/10 border-white/20 text-white file:text-green-400"
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white">Contract ABIs (optional)</label>
                 <Input
-                  placeholder="0x742d35Cc6434C0532925a3b8D6aC6B4fb00c8D18"
-                  value={walletAddress}
-                  onChange={(e) => setWalletAddress(e.target.value)}
-                  className="bg-white/10 border-white/20 text-white placeholder:text-gray-400 focus:border-green-400 focus:ring-green-400/20"
+                  type="file"
+                  multiple
+                  accept=".json,application/json"
+                  onChange={(e) => setAbiFiles(Array.from(e.target.files ?? []))}
+                  className="bg-white/10 border-white/20 text-white file:text-green-400"
                 />
+                <p className="text-xs text-gray-400">
+                  Method names are decoded with a bundled signature database; ABI files add your own contracts.
+                </p>
+                <SignatureSearch abiFiles={abiFiles} />
               </div>
 
-              <Button
-                onClick={() => calculateGasCosts(walletAddress, process.env.ALCHEMY_API_KEY)}
-                disabled={!walletAddress.trim() || isCalculating}
-                className="w-full bg-gradient-to-r from-green-400 to-green-600 hover:from-green-500 hover:to-green-700 hover:shadow-lg hover:shadow-green-500/30 transition-all duration-300 font-semibold text-white"
-              >
-                {isCalculating ? (
-                  <div className="flex items-center space-x-2">
-                    <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
-                    <span>Analyzing Transactions...</span>
-                  </div>
-                ) : (
-                  <>
-                    <Activity className="w-4 h-4 mr-2" />
-                    Calculate Gas Usage
-                  </>
-                )}
-              </Button>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white">Fees Counted</label>
+                <ToggleGroup
+                  type="single"
+                  value={attribution}
+                  // Radix clears the value when the active item is clicked again
+                  onValueChange={(value) => value && setAttribution(value as FeeAttribution)}
+                  className="grid grid-cols-2 gap-2"
+                >
+                  <ToggleGroupItem
+                    value="sender"
+                    className="border border-white/20 text-gray-300 data-[state=on]:bg-green-500/20 data-[state=on]:text-green-300"
+                  >
+                    Fees I paid
+                  </ToggleGroupItem>
+                  <ToggleGroupItem
+                    value="all"
+                    className="border border-white/20 text-gray-300 data-[state=on]:bg-green-500/20 data-[state=on]:text-green-300"
+                  >
+                    All touching transactions
+                  </ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <label htmlFor="sample-later-base-fees" className="text-sm font-medium text-white">
+                    Delay simulation
+                  </label>
+                  <p className="text-xs text-gray-400">
+                    {rpcUrl
+                      ? "Samples the base fee of each hour after your transactions, about one request per hour of history."
+                      : "Needs a JSON-RPC endpoint for the selected network."}
+                  </p>
+                </div>
+                <Switch
+                  id="sample-later-base-fees"
+                  checked={sampleLaterBaseFees && !!rpcUrl}
+                  disabled={!rpcUrl}
+                  onCheckedChange={setSampleLaterBaseFees}
+                />
+              </div>
+
+              {isCalculating ? (
+                <Button
+                  onClick={handleCancel}
+                  variant="outline"
+                  className="w-full bg-transparent border-red-400/40 text-red-300 hover:bg-red-500/10 hover:text-red-200 font-semibold"
+                >
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Cancel Analysis
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleCalculate}
+                  disabled={!addressesReady || (priceProviderKind === "price-file" && !priceFile)}
+                  className="w-full bg-gradient-to-r from-green-400 to-green-600 hover:from-green-500 hover:to-green-700 hover:shadow-lg hover:shadow-green-500/30 transition-all duration-300 font-semibold text-white"
+                >
+                  <Activity className="w-4 h-4 mr-2" />
+                  Calculate Gas Usage
+                </Button>
+              )}
             </CardContent>
           </Card>
         </div>
 
+        {progress && (
+          <div className="max-w-2xl mx-auto mb-8">
+            <ProgressPanel progress={progress} log={activityLog} />
+          </div>
+        )}
+
+        <div className="max-w-2xl mx-auto mb-8">
+          <LocalCacheCard />
+        </div>
+
+        <div className="max-w-2xl mx-auto mb-8">
+          <ProtocolLabelsCard registry={protocolLabels} />
+        </div>
+
         <div className="max-w-4xl mx-auto mb-12">
           <Card className="bg-white/5 backdrop-blur-sm border-white/10">
             <CardHeader>
@@ -382,7 +400,8 @@ const Index = () => {
                   </div>
                   <h3 className="font-semibold text-white">Fetch Transaction History</h3>
                   <p className="text-sm text-gray-300">
-                    Retrieves complete transaction history using Alchemy's Transaction History API with pagination
+                    Retrieves the complete transaction history from{" "}
+                    {historyProviderLabel}, page by page
                   </p>
                 </div>
 
@@ -420,16 +439,42 @@ const Index = () => {
           </div>
         )}
 
+        {cancelledResult !== undefined && (
+          <div className="max-w-2xl mx-auto mb-8">
+            <Card className="bg-yellow-500/10 backdrop-blur-sm border-yellow-500/30">
+              <CardContent className="pt-6 flex flex-col items-center space-y-3">
+                <p className="text-yellow-300 text-center font-medium">
+                  {cancelledResult
+                    ? `Analysis cancelled. A partial result covering ${cancelledResult.statistics.totalTransactions.toLocaleString()} priced transactions is available.`
+                    : "Analysis cancelled before any transactions were fetched."}
+                </p>
+                {cancelledResult && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={showPartialResult}
+                    className="bg-transparent border-yellow-400/40 text-yellow-300 hover:bg-yellow-500/10 hover:text-yellow-200"
+                  >
+                    Show partial result
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
         {showResults && result && (
           <div className="max-w-4xl mx-auto animate-fadeIn">
             <Card className="bg-white/10 backdrop-blur-sm border-green-400/30 shadow-xl shadow-green-500/20">
               <CardHeader>
                 <CardTitle className="text-center text-white flex items-center justify-center space-x-2">
                   <Zap className="w-5 h-5 text-green-400" />
-                  <span>Complete Gas Cost Analysis</span>
+                  <span>{result.partial ? "Partial Gas Cost Analysis" : "Complete Gas Cost Analysis"}</span>
                 </CardTitle>
                 <CardDescription className="text-center text-gray-300">
-                  Historical gas costs calculated with real-time ETH pricing
+                  {result.partial
+                    ? "Analysis was cancelled; totals only cover transactions fetched and priced before cancellation"
+                    : `Historical gas costs calculated with ${result.nativeSymbol} pricing on ${getNetwork(result.network).name}`}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -447,10 +492,10 @@ const Index = () => {
                   <div className="bg-white/5 rounded-lg p-6 border border-white/10">
                     <div className="flex items-center space-x-2 mb-3">
                       <Zap className="w-5 h-5 text-green-400" />
-                      <span className="text-sm font-medium text-gray-300">Total Gas Cost (ETH)</span>
+                      <span className="text-sm font-medium text-gray-300">Total Gas Cost ({result.nativeSymbol})</span>
                     </div>
                     <p className="text-2xl font-bold text-white">
-                      {parseFloat(result.totalGasCostETH).toFixed(6)} ETH
+                      {parseFloat(result.totalGasCostETH).toFixed(6)} {result.nativeSymbol}
                     </p>
                     <p className="text-xs text-gray-400 mt-1">
                       {BigInt(result.totalGasCostWei).toLocaleString()} wei
@@ -474,7 +519,7 @@ const Index = () => {
                           <TrendingUp className="w-5 h-5 text-green-400" />
                           <span className="text-sm font-medium text-gray-300">Average Cost</span>
                         </div>
-                        <p className="text-2xl font-bold text-white">{stats.avgCost}</p>
+                        <p className="text-2xl font-bold text-white">${stats.averageCost.toFixed(2)}</p>
                         <p className="text-xs text-gray-400 mt-1">per transaction</p>
                       </div>
 
@@ -483,7 +528,7 @@ const Index = () => {
                           <Activity className="w-5 h-5 text-orange-400" />
                           <span className="text-sm font-medium text-gray-300">Most Expensive TX</span>
                         </div>
-                        <p className="text-2xl font-bold text-orange-400">{stats.mostExpensive}</p>
+                        <p className="text-2xl font-bold text-orange-400">${stats.mostExpensive.toFixed(2)}</p>
                         <p className="text-xs text-gray-400 mt-1">single transaction</p>
                       </div>
 
@@ -492,46 +537,172 @@ const Index = () => {
                           <Clock className="w-5 h-5 text-blue-400" />
                           <span className="text-sm font-medium text-gray-300">Analysis Period</span>
                         </div>
-                        <p className="text-2xl font-bold text-blue-400">{stats.timeRange}</p>
+                        <p className="text-2xl font-bold text-blue-400">{stats.timeRange} days</p>
                         <p className="text-xs text-gray-400 mt-1">transaction history</p>
                       </div>
-                    </>
-                  )}
-                </div>
 
-                {result.transactionCosts && result.transactionCosts.length > 0 && (
-                  <div className="bg-white/5 rounded-lg p-6 border border-white/10">
-                    <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
-                      <Activity className="w-5 h-5 text-green-400 mr-2" />
-                      Recent Transactions Sample
-                    </h3>
-                    <div className="space-y-3 max-h-64 overflow-y-auto">
-                      {result.transactionCosts.slice(0, 10).map((tx, index) => (
-                        <div key={index} className="flex items-center justify-between bg-white/5 rounded-lg p-3">
-                          <div className="flex-1">
-                            <p className="text-sm text-gray-300 font-mono">
-                              {tx.hash.substring(0, 10)}...{tx.hash.substring(tx.hash.length - 8)}
-                            </p>
+                      {stats.userOperations && (
+                        <div className="bg-white/5 rounded-lg p-6 border border-white/10">
+                          <div className="flex items-center space-x-2 mb-3">
+                            <Users className="w-5 h-5 text-cyan-400" />
+                            <span className="text-sm font-medium text-gray-300">User Operations</span>
+                          </div>
+                          <p className="text-2xl font-bold text-cyan-400">
+                            ${stats.userOperations.selfPaid.costUSD.toFixed(2)}{" "}
+                            <span className="text-base font-medium text-gray-400">self-paid</span>
+                          </p>
+                          <p className="text-xs text-gray-400 mt-1">
+                            {stats.userOperations.selfPaid.count.toLocaleString()} paid by the account ·{" "}
+                            {stats.userOperations.sponsored.count.toLocaleString()} sponsored by paymasters ($
+                            {stats.userOperations.sponsored.costUSD.toFixed(2)})
+                          </p>
+                        </div>
+                      )}
+
+                      {stats.failures && (
+                        <div className="bg-white/5 rounded-lg p-6 border border-white/10">
+                          <div className="flex items-center space-x-2 mb-3">
+                            <AlertOctagon className="w-5 h-5 text-red-400" />
+                            <span className="text-sm font-medium text-gray-300">Wasted on Failures</span>
+                          </div>
+                          <p className="text-2xl font-bold text-red-400">${stats.failures.wastedUSD.toFixed(2)}</p>
+                          <p className="text-xs text-gray-400 mt-1">
+                            {stats.failures.wastedETH.toFixed(6)} {result.nativeSymbol} ·{" "}
+                            {stats.failures.failed.toLocaleString()} of {stats.failures.transactions.toLocaleString()}{" "}
+                            transactions failed ({(stats.failures.rate * 100).toFixed(1)}%)
+                          </p>
+                        </div>
+                      )}
+
+                      {stats.blobFee && (
+                        <div className="bg-white/5 rounded-lg p-6 border border-white/10">
+                          <div className="flex items-center space-x-2 mb-3">
+                            <Box className="w-5 h-5 text-violet-400" />
+                            <span className="text-sm font-medium text-gray-300">Blob Spend</span>
+                          </div>
+                          <p className="text-2xl font-bold text-violet-400">${stats.blobFee.costUSD.toFixed(2)}</p>
+                          <p className="text-xs text-gray-400 mt-1">
+                            {stats.blobFee.costETH.toFixed(6)} {result.nativeSymbol} across{" "}
+                            {stats.blobFee.transactions.toLocaleString()} blob{" "}
+                            {stats.blobFee.transactions === 1 ? "transaction" : "transactions"} ·{" "}
+                            {(stats.blobFee.share * 100).toFixed(1)}% of total spend
+                          </p>
+                        </div>
+                      )}
+
+                      {stats.feeSplit && (
+                        <div className="bg-white/5 rounded-lg p-6 border border-white/10">
+                          <div className="flex items-center space-x-2 mb-3">
+                            <Flame className="w-5 h-5 text-red-400" />
+                            <span className="text-sm font-medium text-gray-300">Base Fee vs Priority Tip</span>
+                          </div>
+                          <p className="text-2xl font-bold text-white">
+                            ${stats.feeSplit.baseFeeUSD.toFixed(2)}{" "}
+                            <span className="text-base font-medium text-gray-400">burned</span>
+                          </p>
+                          <p className="text-xs text-gray-400 mt-1">
+                            ${stats.feeSplit.priorityFeeUSD.toFixed(2)} ({stats.feeSplit.priorityFeeETH.toFixed(6)}{" "}
+                            {result.nativeSymbol}) tipped above the required base fee ·{" "}
+                            {(stats.feeSplit.tipShare * 100).toFixed(1)}% of fees
+                          </p>
+                          {stats.feeSplit.transactions < stats.totalTransactions && (
                             <p className="text-xs text-gray-500">
-                              {new Date(Number(tx.timestamp)).toLocaleDateString()}
+                              Covers {stats.feeSplit.transactions.toLocaleString()} of{" "}
+                              {stats.totalTransactions.toLocaleString()} transactions with a known base fee
                             </p>
+                          )}
+                        </div>
+                      )}
+
+                      {stats.overpayment && (
+                        <div className="bg-white/5 rounded-lg p-6 border border-white/10">
+                          <div className="flex items-center space-x-2 mb-3">
+                            <Gauge className="w-5 h-5 text-amber-400" />
+                            <span className="text-sm font-medium text-gray-300">Overpaid vs Median Tip</span>
                           </div>
-                          <div className="text-right">
-                            <p className="text-sm font-semibold text-white">
-                              {tx.costETH.toFixed(6)} ETH
-                            </p>
-                            <p className="text-xs text-green-400">
-                              ${tx.costUSD.toFixed(2)}
-                            </p>
+                          <p className="text-2xl font-bold text-amber-400">${stats.overpayment.overpaidUSD.toFixed(2)}</p>
+                          <p className="text-xs text-gray-400 mt-1">
+                            {stats.overpayment.overpaidETH.toFixed(6)} {result.nativeSymbol} tipped above each block's
+                            median priority fee ·{" "}
+                            {stats.overpayment.overpaidTransactions.toLocaleString()} of{" "}
+                            {stats.overpayment.transactions.toLocaleString()} transactions
+                          </p>
+                        </div>
+                      )}
+
+                      {stats.l1DataFee && (
+                        <div className="bg-white/5 rounded-lg p-6 border border-white/10">
+                          <div className="flex items-center space-x-2 mb-3">
+                            <Layers className="w-5 h-5 text-purple-400" />
+                            <span className="text-sm font-medium text-gray-300">L1 Data Fee</span>
                           </div>
+                          <p className="text-2xl font-bold text-purple-400">${stats.l1DataFee.costUSD.toFixed(2)}</p>
+                          <p className="text-xs text-gray-400 mt-1">
+                            {stats.l1DataFee.costETH.toFixed(6)} {result.nativeSymbol} ·{" "}
+                            {(stats.l1DataFee.share * 100).toFixed(1)}% of total spend
+                          </p>
+                          {stats.l2ExecutionFee && (
+                            <p className="text-xs text-gray-400">
+                              L2 execution: ${stats.l2ExecutionFee.costUSD.toFixed(2)} (
+                              {stats.l2ExecutionFee.costETH.toFixed(6)} {result.nativeSymbol})
+                            </p>
+                          )}
                         </div>
-                      ))}
-                      {result.transactionCosts.length > 10 && (
-                        <p className="text-center text-xs text-gray-500 pt-2">
-                          Showing 10 of {result.transactionCosts.length.toLocaleString()} transactions
-                        </p>
                       )}
-                    </div>
+                    </>
+                  )}
+                </div>
+
+                {result.transactionCosts.length > 0 && <SpendChart result={result} />}
+
+                {result.addresses.length > 1 && <AddressBreakdownTable result={result} />}
+
+                {result.protocolBreakdown.length > 0 && <ProtocolBreakdownTable result={result} />}
+
+                {result.methodBreakdown.length > 0 && <MethodBreakdown result={result} />}
+
+                <FailedTransactionsTable result={result} />
+
+                {result.transactionCosts.length > 0 && <WhatIfSimulationPanel result={result} />}
+
+                {result.attribution === "sender" && result.excludedInbound.count > 0 && (
+                  <div className="bg-white/5 rounded-lg p-4 border border-white/10 mb-8 text-sm text-gray-300">
+                    {result.excludedInbound.count.toLocaleString()} inbound{" "}
+                    {result.excludedInbound.count === 1 ? "transaction was" : "transactions were"} excluded: their fees of{" "}
+                    {parseFloat(result.excludedInbound.totalGasCostETH).toFixed(6)} {result.nativeSymbol} ($
+                    {parseFloat(result.excludedInbound.totalGasCostUSD).toLocaleString()}) were paid by the senders
+                    {result.excludedInbound.transactionCosts.some((tx) => tx.userOperation) && " or by paymasters"}.
+                  </div>
+                )}
+
+                {includedInbound > 0 && (
+                  <div className="bg-white/5 rounded-lg p-4 border border-white/10 mb-8 text-sm text-gray-300">
+                    Totals include {includedInbound.toLocaleString()} inbound{" "}
+                    {includedInbound === 1 ? "transaction" : "transactions"} whose fees were paid by someone else.
+                  </div>
+                )}
+
+                {result.transactionCosts.length > 0 && <TransactionCostsTable result={result} />}
+
+                {result.diagnostics && (
+                  <DiagnosticsPanel diagnostics={result.diagnostics} count={result.diagnosticCount} />
+                )}
+
+                {result.requestStats && (
+                  <div className="mt-6 text-xs text-gray-400 text-center space-y-1">
+                    <p>
+                      {result.requestStats.requests.toLocaleString()} provider requests
+                      {" · "}
+                      {result.requestStats.retries.toLocaleString()} retries
+                      {result.requestStats.failures > 0 && ` · ${result.requestStats.failures} failed`}
+                    </p>
+                    {result.requestStats.retriedRequests.slice(0, 5).map((request, index) => (
+                      <p key={index} className="text-gray-500">
+                        {request.label}: {request.retries} {request.retries === 1 ? "retry" : "retries"}
+                        {request.lastStatus && ` (last status ${request.lastStatus})`}
+                        {!request.succeeded && " – gave up"}
+                      </p>
+                    ))}
                   </div>
                 )}
               </CardContent>
@@ -542,9 +713,14 @@ const Index = () => {
         <div className="text-center mt-16 text-gray-400">
           <p className="text-sm">
             Powered by{" "}
-            <span className="text-green-400 font-medium">Alchemy's Transaction History API</span>
-            {" "}and{" "}
-            <span className="text-green-400 font-medium">Historical Token Prices API</span>
+            <span className="text-green-400 font-medium">
+              {historyProviderLabel}
+            </span>{" "}
+            transaction history and{" "}
+            <span className="text-green-400 font-medium">
+              {priceProviderLabel}
+            </span>{" "}
+            historical prices
           </p>
           <p className="text-xs mt-2 text-gray-500">
             Real-time gas cost analysis with historical USD pricing accuracy
@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_ALCHEMY_API_KEY?: string;
+  readonly VITE_ETHERSCAN_API_KEY?: string;
+  readonly VITE_ETHERSCAN_BASE_URL?: string;
+  readonly VITE_RPC_URL?: string;
+  readonly VITE_ENS_RPC_URL?: string;
+  readonly VITE_COINGECKO_API_KEY?: string;
+  readonly VITE_COINGECKO_BASE_URL?: string;
+  readonly VITE_REQUEST_CONCURRENCY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}